@@ -0,0 +1,124 @@
+// scripts/generate-api.ts - Export the OpenAPI spec and regenerate the frontend client
+//
+//   pnpm generate:api          write openapi.json and run Orval (react-query hooks and zod schemas)
+//   pnpm generate:api:check    generate the same, then fail if it differs from the committed files
+//
+// The spec is built from the registered routes with app.inject(), so no server,
+// port or database is needed. Orval writes into a staging directory next to the
+// committed client, which is only replaced once Orval succeeds; --check never
+// writes to the tree.
+import { execFileSync } from 'node:child_process';
+import { existsSync, mkdtempSync, readdirSync, readFileSync, renameSync, rmSync, statSync, writeFileSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+// The version whose document the frontend client is generated from
+const API_VERSION = 'v1';
+
+const backendDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const repoDir = path.resolve(backendDir, '../..');
+const frontendDir = path.resolve(backendDir, '../frontend');
+const specPath = path.join(backendDir, 'openapi.json');
+const generatedDir = path.join(frontendDir, 'lib/api/generated');
+
+// @app/db needs a connection string at import; the routes are never called, so it is never used
+process.env.DATABASE_URL ??= 'postgres://openapi@localhost:5432/openapi';
+
+async function exportSpec(): Promise<string> {
+  const [{ db, pool }, { createLogger }, { buildApp }, { loadConfig }] = await Promise.all([
+    import('@app/db'),
+    import('@app/logger'),
+    import('../src/app.js'),
+    import('../src/config.js'),
+  ]);
+
+  // Fixed settings rather than .env, so every machine produces the same spec
+  const config = loadConfig({ JWT_SECRET: 'openapi-export-openapi-export-openapi' });
+  const app = await buildApp({ db, logger: createLogger({ level: 'silent' }), config });
+
+  try {
+    const response = await app.inject({ method: 'GET', url: `${config.docs.routePrefix}/${API_VERSION}/json` });
+    if (response.statusCode !== 200) {
+      throw new Error(`Exporting the ${API_VERSION} spec failed with status ${response.statusCode}`);
+    }
+    return `${JSON.stringify(response.json(), null, 4)}\n`;
+  } finally {
+    await app.close();
+    await pool.end();
+  }
+}
+
+// Contents of every file under dir, keyed by path relative to it
+function snapshot(dir: string): Map<string, string> {
+  if (!existsSync(dir)) return new Map();
+
+  const files = (readdirSync(dir, { recursive: true }) as string[]).filter((entry) =>
+    statSync(path.join(dir, entry)).isFile(),
+  );
+  return new Map(files.map((entry) => [entry, readFileSync(path.join(dir, entry), 'utf8')] as const));
+}
+
+// Files that differ between the committed client and the staged one
+function diffClient(committedDir: string, stagedDir: string): string[] {
+  const committed = snapshot(committedDir);
+  const staged = snapshot(stagedDir);
+  return [...new Set([...committed.keys(), ...staged.keys()])]
+    .filter((file) => committed.get(file) !== staged.get(file))
+    .sort();
+}
+
+async function generate() {
+  const check = process.argv.includes('--check');
+  // Same depth as generated/, so the relative imports Orval writes are identical
+  const stagingDir = mkdtempSync(path.join(path.dirname(generatedDir), '.generated-'));
+  const stagedSpecPath = path.join(mkdtempSync(path.join(os.tmpdir(), 'openapi-')), 'openapi.json');
+
+  try {
+    console.log(`📄 Exporting the ${API_VERSION} OpenAPI spec...`);
+    const spec = await exportSpec();
+    writeFileSync(stagedSpecPath, spec);
+
+    console.log('⚙️  Running Orval...');
+    execFileSync('pnpm', ['exec', 'orval'], {
+      cwd: frontendDir,
+      stdio: 'inherit',
+      env: { ...process.env, ORVAL_INPUT: stagedSpecPath, ORVAL_OUTPUT_DIR: stagingDir },
+    });
+
+    if (!check) {
+      writeFileSync(specPath, spec);
+      // Replace the whole directory so files of removed operations do not linger
+      rmSync(generatedDir, { recursive: true, force: true });
+      renameSync(stagingDir, generatedDir);
+      console.log('\n🎉 openapi.json and the frontend client are up to date');
+      return;
+    }
+
+    const stale = diffClient(generatedDir, stagingDir).map((file) =>
+      path.relative(repoDir, path.join(generatedDir, file)),
+    );
+    if (!existsSync(specPath) || readFileSync(specPath, 'utf8') !== spec) {
+      stale.unshift(path.relative(repoDir, specPath));
+    }
+
+    if (stale.length > 0) {
+      console.error('\n❌ The committed spec or client is stale. Changed files:');
+      for (const file of stale) console.error(`  ${file}`);
+      console.error('\nRun `pnpm generate:api` and commit the result.');
+      process.exitCode = 1;
+      return;
+    }
+
+    console.log('\n✅ openapi.json and the frontend client match the routes');
+  } catch (error) {
+    console.error('\n❌ Generating the API client failed:');
+    console.error(error);
+    process.exitCode = 1;
+  } finally {
+    rmSync(stagingDir, { recursive: true, force: true });
+    rmSync(path.dirname(stagedSpecPath), { recursive: true, force: true });
+  }
+}
+
+generate();
@@ -0,0 +1,67 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import apiVersionsPlugin from '../plugins/api-versions.js';
+import { createTestApp, type TestApp } from './helpers.js';
+
+describe('API versions', () => {
+  let testApp: TestApp;
+
+  beforeAll(async () => {
+    testApp = await createTestApp(async (app) => {
+      // A retired version next to the real ones
+      await app.register(apiVersionsPlugin, {
+        docsPrefix: '/docs',
+        versions: [
+          {
+            version: 'v0',
+            deprecatedAt: new Date('2025-01-01T00:00:00Z'),
+            sunsetAt: new Date('2025-07-01T00:00:00Z'),
+            successor: 'v1',
+            routes: async (api) => {
+              api.get('/ping', { schema: { tags: ['ping'] } }, async () => ({ pong: true }));
+            },
+          },
+        ],
+      });
+    });
+  });
+
+  afterAll(async () => {
+    await testApp.close();
+  });
+
+  it('serves the routes under /api/v1 only', async () => {
+    expect((await testApp.app.inject({ method: 'GET', url: '/api/v1/users' })).statusCode).toBe(401);
+    expect((await testApp.app.inject({ method: 'GET', url: '/users' })).statusCode).toBe(404);
+  });
+
+  it('sends no deprecation headers for a current version', async () => {
+    const response = await testApp.app.inject({ method: 'GET', url: '/api/v1/users' });
+
+    expect(response.headers).not.toHaveProperty('deprecation');
+    expect(response.headers).not.toHaveProperty('sunset');
+  });
+
+  it('announces the removal of a deprecated version', async () => {
+    const response = await testApp.app.inject({ method: 'GET', url: '/api/v0/ping' });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.headers.deprecation).toBe('@1735689600');
+    expect(response.headers.sunset).toBe('Tue, 01 Jul 2025 00:00:00 GMT');
+    expect(response.headers.link).toBe('</api/v1>; rel="successor-version"');
+  });
+
+  it('serves one OpenAPI document per version', async () => {
+    const v1 = (await testApp.app.inject({ method: 'GET', url: '/docs/v1/json' })).json();
+    const v0 = (await testApp.app.inject({ method: 'GET', url: '/docs/v0/json' })).json();
+
+    expect(v1.info.version).toBe('v1');
+    expect(Object.keys(v1.paths)).toEqual(expect.arrayContaining(['/api/v1/users', '/api/v1/auth/login', '/health/live']));
+    expect(Object.keys(v1.paths)).not.toContain('/api/v0/ping');
+    expect(v1.paths['/api/v1/users'].get.deprecated).toBeUndefined();
+
+    expect(Object.keys(v0.paths)).toEqual(expect.arrayContaining(['/api/v0/ping', '/health/live']));
+    expect(Object.keys(v0.paths)).not.toContain('/api/v1/users');
+    expect(v0.paths['/api/v0/ping'].get.deprecated).toBe(true);
+    expect(v0.paths['/health/live'].get.deprecated).toBeUndefined();
+  });
+});
@@ -0,0 +1,159 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { eq, refreshTokens, userCredentials, users } from '@app/db';
+import { hashPassword } from '../lib/password.js';
+import { createTestApp, type TestApp } from './helpers.js';
+
+const PASSWORD = 'correct-horse-42-battery';
+
+describe('auth routes', () => {
+  let testApp: TestApp;
+
+  beforeAll(async () => {
+    testApp = await createTestApp();
+  });
+
+  afterAll(async () => {
+    await testApp.close();
+  });
+
+  // A user with a password, unique per test so sessions do not interfere
+  const createUser = async () => {
+    const [user] = await testApp.db
+      .insert(users)
+      .values({ email: `auth-${crypto.randomUUID()}@example.com`, address: `${crypto.randomUUID()} Auth street` })
+      .returning();
+    await testApp.db.insert(userCredentials).values({ userId: user.id, passwordHash: await hashPassword(PASSWORD) });
+    return user;
+  };
+
+  const post = (url: string, payload: object, headers: Record<string, string> = {}) =>
+    testApp.app.inject({ method: 'POST', url: `/api/v1/auth${url}`, payload, headers });
+
+  const login = (email: string, password = PASSWORD) => post('/login', { email, password });
+
+  const activeTokenCount = async (userId: string) =>
+    (await testApp.db.select().from(refreshTokens).where(eq(refreshTokens.userId, userId))).filter(
+      (token) => !token.revokedAt,
+    ).length;
+
+  it('signs in with the right password and returns a token pair', async () => {
+    const user = await createUser();
+
+    const response = await login(user.email);
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toMatchObject({ tokenType: 'Bearer', accessToken: expect.any(String) });
+
+    const me = await testApp.app.inject({
+      method: 'GET',
+      url: '/api/v1/auth/me',
+      headers: { authorization: `Bearer ${response.json().accessToken}` },
+    });
+    expect(me.statusCode).toBe(200);
+    expect(me.json().id).toBe(user.id);
+  });
+
+  it('matches the email regardless of case', async () => {
+    const user = await createUser();
+
+    expect((await login(user.email.toUpperCase())).statusCode).toBe(200);
+  });
+
+  it('rejects a wrong password and an unknown email alike', async () => {
+    const user = await createUser();
+
+    const wrongPassword = await login(user.email, 'wrong-password-123');
+    const unknownEmail = await login('nobody@example.com');
+
+    expect(wrongPassword.statusCode).toBe(401);
+    expect(unknownEmail.statusCode).toBe(401);
+    expect(wrongPassword.json().code).toBe('INVALID_CREDENTIALS');
+    expect(unknownEmail.json().message).toBe(wrongPassword.json().message);
+  });
+
+  it('rotates the refresh token on every refresh', async () => {
+    const user = await createUser();
+    const { refreshToken } = (await login(user.email)).json();
+
+    const response = await post('/refresh', { refreshToken });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().refreshToken).not.toBe(refreshToken);
+    expect(await activeTokenCount(user.id)).toBe(1);
+
+    const next = await post('/refresh', { refreshToken: response.json().refreshToken });
+    expect(next.statusCode).toBe(200);
+  });
+
+  it('revokes the whole token family when a rotated token is reused', async () => {
+    const user = await createUser();
+    const { refreshToken } = (await login(user.email)).json();
+    const { refreshToken: successor } = (await post('/refresh', { refreshToken })).json();
+
+    const reused = await post('/refresh', { refreshToken });
+
+    expect(reused.statusCode).toBe(401);
+    expect(reused.json().message).toMatch(/already been used/);
+    // The legitimate holder's current token went with it
+    expect((await post('/refresh', { refreshToken: successor })).statusCode).toBe(401);
+    expect(await activeTokenCount(user.id)).toBe(0);
+  });
+
+  it('rejects an unknown refresh token', async () => {
+    const response = await post('/refresh', { refreshToken: 'not-a-real-token' });
+
+    expect(response.statusCode).toBe(401);
+  });
+
+  it('signs out one session on logout and leaves the others', async () => {
+    const user = await createUser();
+    const first = (await login(user.email)).json();
+    const second = (await login(user.email)).json();
+
+    const response = await post('/logout', { refreshToken: first.refreshToken });
+
+    expect(response.statusCode).toBe(204);
+    expect((await post('/refresh', { refreshToken: first.refreshToken })).statusCode).toBe(401);
+    expect((await post('/refresh', { refreshToken: second.refreshToken })).statusCode).toBe(200);
+  });
+
+  it('answers 204 on logout with an unknown token', async () => {
+    const response = await post('/logout', { refreshToken: 'not-a-real-token' });
+
+    expect(response.statusCode).toBe(204);
+  });
+
+  it('changes the password and revokes every session', async () => {
+    const user = await createUser();
+    const first = (await login(user.email)).json();
+    const second = (await login(user.email)).json();
+    const newPassword = 'another-horse-43-battery';
+
+    const response = await post(
+      '/password/change',
+      { currentPassword: PASSWORD, newPassword },
+      { authorization: `Bearer ${first.accessToken}` },
+    );
+
+    expect(response.statusCode).toBe(204);
+    expect(await activeTokenCount(user.id)).toBe(0);
+    expect((await post('/refresh', { refreshToken: second.refreshToken })).statusCode).toBe(401);
+    expect((await login(user.email)).statusCode).toBe(401);
+    expect((await login(user.email, newPassword)).statusCode).toBe(200);
+  });
+
+  it('keeps the password and the sessions when the current password is wrong', async () => {
+    const user = await createUser();
+    const { accessToken, refreshToken } = (await login(user.email)).json();
+
+    const response = await post(
+      '/password/change',
+      { currentPassword: 'wrong-password-123', newPassword: 'another-horse-43-battery' },
+      { authorization: `Bearer ${accessToken}` },
+    );
+
+    expect(response.statusCode).toBe(400);
+    expect(await activeTokenCount(user.id)).toBe(1);
+    expect((await post('/refresh', { refreshToken })).statusCode).toBe(200);
+  });
+});
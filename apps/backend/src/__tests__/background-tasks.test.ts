@@ -0,0 +1,34 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createTestApp, type TestApp } from './helpers.js';
+
+describe('background tasks', () => {
+  let testApp: TestApp;
+
+  // Each test closes its own app
+  beforeEach(async () => {
+    testApp = await createTestApp();
+  });
+
+  it('are awaited when the app closes', async () => {
+    let finished = false;
+    const task = new Promise<void>((resolve) =>
+      setTimeout(() => {
+        finished = true;
+        resolve();
+      }, 50),
+    );
+
+    expect(await Promise.race([testApp.app.trackBackgroundTask(Promise.resolve('value')), task])).toBe('value');
+    testApp.app.trackBackgroundTask(task);
+    await testApp.close();
+
+    expect(finished).toBe(true);
+  });
+
+  it('do not hold up closing when they fail', async () => {
+    const failing = testApp.app.trackBackgroundTask(Promise.reject(new Error('Purge failed')));
+
+    await expect(failing).rejects.toThrow('Purge failed');
+    await testApp.close();
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { ConfigError, loadConfig } from '../config.js';
+
+const JWT_SECRET = 'test-secret-test-secret-test-secret';
+
+// The ConfigError thrown for the given environment
+const configError = (env: NodeJS.ProcessEnv) => {
+  try {
+    loadConfig(env);
+  } catch (error) {
+    if (error instanceof ConfigError) return error;
+    throw error;
+  }
+  throw new Error('Expected loadConfig to throw');
+};
+
+describe('loadConfig', () => {
+  it('applies the defaults when optional variables are unset', () => {
+    const config = loadConfig({ JWT_SECRET });
+
+    expect(config).toEqual({
+      server: {
+        host: '0.0.0.0',
+        port: 3000,
+        publicUrl: 'http://localhost:3000',
+        bodyLimitBytes: 1024 * 1024,
+        requestTimeoutMs: 30_000,
+      },
+      log: { level: 'info' },
+      docs: { enabled: true, routePrefix: '/docs' },
+      auth: { jwtSecret: JWT_SECRET, jwtExpiresIn: '15m', refreshTokenTtlMs: 30 * 24 * 60 * 60 * 1000 },
+      idempotency: { keyTtlMs: 24 * 60 * 60 * 1000, lockTimeoutMs: 60_000 },
+      health: { checkTimeoutMs: 2000 },
+      shutdown: { timeoutMs: 10_000 },
+    });
+  });
+
+  it('parses the variables that are set', () => {
+    const config = loadConfig({
+      JWT_SECRET,
+      PORT: '8080',
+      DOCS_ENABLED: 'false',
+      PUBLIC_URL: 'https://api.example.com/',
+    });
+
+    expect(config.server).toMatchObject({ port: 8080, publicUrl: 'https://api.example.com' });
+    expect(config.docs.enabled).toBe(false);
+  });
+
+  it('requires JWT_SECRET', () => {
+    expect(configError({}).issues).toContain('JWT_SECRET is required');
+  });
+
+  it('rejects a JWT_SECRET shorter than 32 characters', () => {
+    expect(configError({ JWT_SECRET: 'too-short' }).issues).toContain('JWT_SECRET must be at least 32 characters');
+  });
+
+  it('rejects an invalid PORT', () => {
+    for (const PORT of ['not-a-port', '0', '70000']) {
+      expect(configError({ JWT_SECRET, PORT }).issues).toContain('PORT');
+    }
+  });
+
+  it('reports every invalid variable in one error', () => {
+    const error = configError({ JWT_SECRET: 'too-short', PORT: 'not-a-port', LOG_LEVEL: 'loud' });
+
+    expect(error.message).toMatch(/^Invalid configuration:/);
+    expect(error.issues).toContain('JWT_SECRET must be at least 32 characters');
+    expect(error.issues).toContain('PORT');
+    expect(error.issues).toContain('LOG_LEVEL');
+  });
+});
@@ -0,0 +1,83 @@
+import fc from 'fast-check';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { authorizeAs, createTestApp, type TestApp } from './helpers.js';
+import {
+  invalidRequest,
+  listOperations,
+  loadSpec,
+  responseProblems,
+  toInjectOptions,
+  validRequest,
+  type GeneratedRequest,
+  type Operation,
+} from './openapi-contract.js';
+
+// Runs per property; raise locally (CONTRACT_RUNS=500) when hunting for edge cases
+const RUNS = Number(process.env.CONTRACT_RUNS ?? 25);
+// Hashing passwords makes some runs slow, so allow time in proportion
+const TIMEOUT = Math.max(10_000, RUNS * 200);
+
+const spec = loadSpec(new URL('../../openapi.json', import.meta.url));
+
+describe('OpenAPI contract', () => {
+  let testApp: TestApp;
+  let headers: Record<string, string>;
+
+  beforeAll(async () => {
+    testApp = await createTestApp();
+    // Admins hold every permission, so requests reach validation and the handlers
+    ({ headers } = await authorizeAs(testApp, 'admin'));
+  });
+
+  afterAll(async () => {
+    await testApp.close();
+  });
+
+  const send = (operation: Operation, request: GeneratedRequest, authorized = true) =>
+    testApp.app.inject(toInjectOptions(operation, request, operation.secured && authorized ? headers : {}));
+
+  for (const operation of listOperations(spec)) {
+    describe(`${operation.method} ${operation.path}`, () => {
+      it('answers valid requests with a documented status and body', async () => {
+        await fc.assert(
+          fc.asyncProperty(validRequest(operation), async (request) => {
+            const response = await send(operation, request);
+
+            expect(response.statusCode).toBeLessThan(operation.responses['503'] ? 504 : 500);
+            expect(responseProblems(operation, response)).toEqual([]);
+          }),
+          { numRuns: RUNS },
+        );
+      }, TIMEOUT);
+
+      const invalid = invalidRequest(operation);
+      if (invalid) {
+        it('rejects invalid requests with a documented 400', async () => {
+          await fc.assert(
+            fc.asyncProperty(invalid, async (request) => {
+              const response = await send(operation, request);
+
+              expect(response.statusCode).toBe(400);
+              expect(responseProblems(operation, response)).toEqual([]);
+            }),
+            { numRuns: RUNS },
+          );
+        }, TIMEOUT);
+      }
+
+      if (operation.secured) {
+        it('rejects requests without a token with a documented 401', async () => {
+          await fc.assert(
+            fc.asyncProperty(validRequest(operation), async (request) => {
+              const response = await send(operation, request, false);
+
+              expect(response.statusCode).toBe(401);
+              expect(responseProblems(operation, response)).toEqual([]);
+            }),
+            { numRuns: 5 },
+          );
+        });
+      }
+    });
+  }
+});
@@ -0,0 +1,151 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { roles } from '@app/db';
+import { z } from 'zod';
+import { createCrudRoutes } from '../lib/crud.js';
+import { authorizeAs, createTestApp, type TestApp } from './helpers.js';
+
+describe('createCrudRoutes', () => {
+  let testApp: TestApp;
+  let headers: Record<string, string>;
+
+  beforeAll(async () => {
+    testApp = await createTestApp(async (app, db) => {
+      await app.register(
+        createCrudRoutes({
+          db,
+          table: roles,
+          name: 'role',
+          tag: 'crud-roles',
+          permissions: { create: ['roles:manage'], update: ['roles:manage'], delete: ['roles:manage'] },
+        }),
+        { prefix: '/crud-roles' },
+      );
+      await app.register(
+        createCrudRoutes({
+          db,
+          table: roles,
+          name: 'role',
+          operations: ['get'],
+          schemas: { select: (schema) => schema.omit({ description: true }) },
+        }),
+        { prefix: '/role-names' },
+      );
+      await app.register(
+        createCrudRoutes({
+          db,
+          table: roles,
+          name: 'role',
+          operations: ['list'],
+          schemas: { select: (schema) => schema.extend({ label: z.string().optional() }) },
+        }),
+        { prefix: '/labelled-roles' },
+      );
+    });
+    ({ headers } = await authorizeAs(testApp, 'admin'));
+  });
+
+  afterAll(async () => {
+    await testApp.close();
+  });
+
+  const request = (method: 'GET' | 'POST' | 'PATCH' | 'DELETE', url: string, payload?: unknown) =>
+    testApp.app.inject({ method, url, payload: payload as Record<string, unknown>, headers });
+
+  it('creates a row and returns it with ISO timestamps, ignoring read-only columns', async () => {
+    const id = crypto.randomUUID();
+    const response = await request('POST', '/crud-roles', { id, name: 'editor', description: 'Edits things' });
+
+    expect(response.statusCode).toBe(201);
+    const body = response.json();
+    expect(body).toMatchObject({ name: 'editor', description: 'Edits things' });
+    expect(body.id).not.toBe(id);
+    expect(new Date(body.createdAt).toISOString()).toBe(body.createdAt);
+  });
+
+  it('validates the body against the table columns', async () => {
+    const response = await request('POST', '/crud-roles', { description: 'No name' });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json()).toMatchObject({ code: 'VALIDATION_ERROR', errors: [{ field: 'name' }] });
+  });
+
+  it('maps unique violations to 409', async () => {
+    const response = await request('POST', '/crud-roles', { name: 'admin' });
+
+    expect(response.statusCode).toBe(409);
+    expect(response.json().code).toBe('ALREADY_EXISTS');
+  });
+
+  it('lists rows with pagination and sorting', async () => {
+    const response = await request('GET', '/crud-roles?perPage=2&sortBy=name&sortOrder=asc');
+
+    expect(response.statusCode).toBe(200);
+    const body = response.json();
+    expect(body.data.map((role: { name: string }) => role.name)).toEqual(['admin', 'auditor']);
+    expect(body).toMatchObject({ page: 1, pageSize: 2, total: expect.any(Number) });
+    expect(body.totalPages).toBe(Math.ceil(body.total / 2));
+  });
+
+  it('rejects sorting by an unknown column', async () => {
+    const response = await request('GET', '/crud-roles?sortBy=password');
+
+    expect(response.statusCode).toBe(400);
+  });
+
+  it('only sorts by table columns when an override adds fields', async () => {
+    expect((await request('GET', '/labelled-roles?sortBy=label')).statusCode).toBe(400);
+    expect((await request('GET', '/labelled-roles?sortBy=name')).statusCode).toBe(200);
+  });
+
+  it('gets, updates and deletes a row by ID', async () => {
+    const { id } = (await request('POST', '/crud-roles', { name: 'temp' })).json();
+
+    expect((await request('GET', `/crud-roles/${id}`)).json().name).toBe('temp');
+
+    const updated = await request('PATCH', `/crud-roles/${id}`, { description: 'Temporary' });
+    expect(updated.statusCode).toBe(200);
+    expect(updated.json()).toMatchObject({ id, name: 'temp', description: 'Temporary' });
+
+    expect((await request('DELETE', `/crud-roles/${id}`)).statusCode).toBe(204);
+    expect((await request('GET', `/crud-roles/${id}`)).statusCode).toBe(404);
+    expect((await request('DELETE', `/crud-roles/${id}`)).statusCode).toBe(404);
+  });
+
+  it('rejects an empty update and a malformed ID', async () => {
+    const { id } = (await request('POST', '/crud-roles', { name: 'empty-update' })).json();
+
+    expect((await request('PATCH', `/crud-roles/${id}`, {})).statusCode).toBe(400);
+    expect((await request('GET', '/crud-roles/not-a-uuid')).statusCode).toBe(400);
+  });
+
+  it('enforces the configured permissions', async () => {
+    const user = await authorizeAs(testApp, 'user');
+
+    const response = await testApp.app.inject({
+      method: 'POST',
+      url: '/crud-roles',
+      payload: { name: 'sneaky' },
+      headers: user.headers,
+    });
+
+    expect(response.statusCode).toBe(403);
+  });
+
+  it('applies schema overrides and only registers the chosen operations', async () => {
+    const { id } = (await request('POST', '/crud-roles', { name: 'reviewer', description: 'Hidden' })).json();
+
+    const response = await request('GET', `/role-names/${id}`);
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).not.toHaveProperty('description');
+
+    expect((await request('GET', '/role-names')).statusCode).toBe(404);
+  });
+
+  it('documents the generated routes in the OpenAPI spec', async () => {
+    const spec = (await testApp.app.inject({ method: 'GET', url: '/docs/json' })).json();
+
+    expect(Object.keys(spec.paths)).toEqual(expect.arrayContaining(['/crud-roles', '/crud-roles/{id}']));
+    expect(spec.paths['/crud-roles'].post['x-permissions']).toEqual(['roles:manage']);
+    expect(spec.paths['/crud-roles'].post.requestBody.content['application/json'].schema.required).toEqual(['name']);
+  });
+});
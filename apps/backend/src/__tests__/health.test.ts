@@ -0,0 +1,82 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { sql } from '@app/db';
+import { createTestApp, type TestApp } from './helpers.js';
+
+describe('health routes', () => {
+  let testApp: TestApp;
+
+  beforeAll(async () => {
+    // A short probe timeout so the timeout case does not hold up the suite
+    testApp = await createTestApp(undefined, { HEALTH_CHECK_TIMEOUT_MS: '100' });
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    await testApp.close();
+  });
+
+  const ready = () => testApp.app.inject({ method: 'GET', url: '/health/ready' });
+
+  it('reports ready when the database answers and is migrated', async () => {
+    const response = await ready();
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toMatchObject({
+      status: 'ready',
+      checks: { database: { status: 'up' }, migrations: { status: 'up-to-date', pending: 0 } },
+    });
+  });
+
+  it('answers 503 when the database check fails', async () => {
+    const execute = vi.spyOn(testApp.db, 'execute').mockRejectedValue(new Error('Connection refused'));
+
+    const response = await ready();
+    execute.mockRestore();
+
+    expect(response.statusCode).toBe(503);
+    expect(response.json()).toMatchObject({
+      status: 'not_ready',
+      checks: { database: { status: 'down', error: 'Connection refused' } },
+    });
+  });
+
+  it('answers 503 when the database check exceeds its timeout', async () => {
+    const execute = vi.spyOn(testApp.db, 'execute').mockReturnValue(new Promise(() => {}) as never);
+
+    const response = await ready();
+    execute.mockRestore();
+
+    expect(response.statusCode).toBe(503);
+    expect(response.json().checks.database).toMatchObject({
+      status: 'down',
+      error: 'Database check timed out after 100ms',
+    });
+  });
+
+  it('answers 503 while migrations are pending', async () => {
+    // Forget the newest migration, as if it had been added after the last deploy
+    await testApp.db.execute(sql`
+      DELETE FROM drizzle.__drizzle_migrations
+      WHERE created_at = (SELECT max(created_at) FROM drizzle.__drizzle_migrations)
+    `);
+
+    const response = await ready();
+
+    expect(response.statusCode).toBe(503);
+    expect(response.json()).toMatchObject({
+      status: 'not_ready',
+      checks: { database: { status: 'up' }, migrations: { status: 'pending', pending: 1 } },
+    });
+  });
+
+  // Last: shutting down cannot be undone
+  it('reports shutting_down once shutdown has begun', async () => {
+    testApp.app.markShuttingDown();
+
+    const response = await ready();
+
+    expect(response.statusCode).toBe(503);
+    expect(response.json().status).toBe('shutting_down');
+    expect((await testApp.app.inject({ method: 'GET', url: '/health/live' })).statusCode).toBe(200);
+  });
+});
@@ -0,0 +1,52 @@
+import { users, type Database } from '@app/db';
+import { createTestDatabase } from '@app/db/testing';
+import { createLogger } from '@app/logger';
+import type { FastifyInstance } from 'fastify';
+import { buildApp } from '../app.js';
+import { loadConfig } from '../config.js';
+
+export interface TestApp {
+  app: FastifyInstance;
+  db: Database;
+  close: () => Promise<void>;
+}
+
+/**
+ * Build the app on a fresh, migrated and seeded in-memory database.
+ * `configure` can register extra routes before the app is sealed; `env`
+ * overrides configuration variables.
+ */
+export async function createTestApp(
+  configure?: (app: FastifyInstance, db: Database) => Promise<void>,
+  env: NodeJS.ProcessEnv = {},
+): Promise<TestApp> {
+  const database = await createTestDatabase();
+  const config = loadConfig({ JWT_SECRET: 'test-secret-test-secret-test-secret', ...env });
+  const app = await buildApp({ db: database.db, logger: createLogger({ level: 'silent' }), config });
+  await configure?.(app, database.db);
+  await app.ready();
+
+  return {
+    app,
+    db: database.db,
+    close: async () => {
+      await app.close();
+      await database.close();
+    },
+  };
+}
+
+/**
+ * Insert a user with the given role and return a bearer header for them
+ */
+export async function authorizeAs({ app, db }: TestApp, role: string) {
+  // Both columns are unique, so several users of one role need distinct values
+  const suffix = crypto.randomUUID();
+  const [user] = await db
+    .insert(users)
+    .values({ email: `${role}-${suffix}@example.com`, address: `${suffix} ${role} street`, role })
+    .returning();
+
+  const { accessToken } = await app.issueAccessToken({ id: user.id, email: user.email, role: user.role });
+  return { user, headers: { authorization: `Bearer ${accessToken}` } };
+}
@@ -0,0 +1,133 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { count, idempotencyKeys, users } from '@app/db';
+import { authorizeAs, createTestApp, type TestApp } from './helpers.js';
+
+describe('Idempotency-Key', () => {
+  let testApp: TestApp;
+
+  beforeAll(async () => {
+    testApp = await createTestApp();
+  });
+
+  afterAll(async () => {
+    await testApp.close();
+  });
+
+  beforeEach(async () => {
+    await testApp.db.delete(idempotencyKeys);
+    await testApp.db.delete(users);
+  });
+
+  const ada = { name: 'Ada Lovelace', email: 'ada@example.com', address: '1 Analytical Way' };
+
+  const createUser = (body: Record<string, unknown>, key?: string, headers: Record<string, string> = {}) =>
+    testApp.app.inject({
+      method: 'POST',
+      url: '/api/v1/users',
+      payload: body,
+      headers: key === undefined ? headers : { ...headers, 'idempotency-key': key },
+    });
+
+  const countUsers = async () => (await testApp.db.select({ total: count() }).from(users))[0].total;
+
+  it('replays the first response to a retry instead of creating the user again', async () => {
+    const first = await createUser(ada, 'key-1');
+    const retry = await createUser(ada, 'key-1');
+
+    expect(first.statusCode).toBe(201);
+    expect(first.headers['idempotent-replayed']).toBeUndefined();
+    expect(retry.statusCode).toBe(201);
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+    expect(retry.headers['content-type']).toMatch(/^application\/json/);
+    expect(retry.json()).toEqual(first.json());
+    expect(await countUsers()).toBe(1);
+  });
+
+  it('runs requests without a key every time', async () => {
+    await createUser(ada);
+    const retry = await createUser(ada);
+
+    expect(retry.statusCode).toBe(409);
+    expect(retry.json().code).toBe('ALREADY_EXISTS');
+  });
+
+  it('rejects a key reused with a different body with 422', async () => {
+    await createUser(ada, 'key-1');
+    const response = await createUser({ ...ada, name: 'Ada King' }, 'key-1');
+
+    expect(response.statusCode).toBe(422);
+    expect(response.json().code).toBe('IDEMPOTENCY_KEY_REUSED');
+    expect(await countUsers()).toBe(1);
+  });
+
+  it('scopes keys to the caller', async () => {
+    const { headers } = await authorizeAs(testApp, 'admin');
+
+    const anonymous = await createUser(ada, 'key-1');
+    const admin = await createUser({ ...ada, email: 'ada@admin.example.com', address: '2 Admin Row' }, 'key-1', headers);
+
+    expect(anonymous.statusCode).toBe(201);
+    expect(admin.statusCode).toBe(201);
+    expect(admin.headers['idempotent-replayed']).toBeUndefined();
+  });
+
+  it('answers 409 while the first request with the key is still running', async () => {
+    await createUser(ada, 'key-1');
+    // As if the first request had not sent its response yet
+    await testApp.db.update(idempotencyKeys).set({ statusCode: null, body: null });
+
+    const response = await createUser(ada, 'key-1');
+
+    expect(response.statusCode).toBe(409);
+    expect(response.json().code).toBe('IDEMPOTENCY_KEY_IN_USE');
+  });
+
+  it('lets a retry take over a key whose first request never finished', async () => {
+    await createUser(ada, 'key-1');
+    const [abandoned] = await testApp.db
+      .update(idempotencyKeys)
+      .set({ statusCode: null, body: null, createdAt: new Date(Date.now() - 5 * 60 * 1000) })
+      .returning();
+    await testApp.db.delete(users);
+
+    const response = await createUser(ada, 'key-1');
+    const [claim] = await testApp.db.select().from(idempotencyKeys);
+
+    expect(response.statusCode).toBe(201);
+    expect(response.headers['idempotent-replayed']).toBeUndefined();
+    // The crashed request can no longer save over or release the new claim
+    expect(claim.id).not.toBe(abandoned.id);
+    expect(claim.statusCode).toBe(201);
+  });
+
+  it('lets a key be used for a new request once it has expired', async () => {
+    await createUser(ada, 'key-1');
+    await testApp.db.update(idempotencyKeys).set({ expiresAt: new Date(Date.now() - 1000) });
+
+    const response = await createUser({ ...ada, email: 'grace@example.com', address: '3 Compiler Lane' }, 'key-1');
+
+    expect(response.statusCode).toBe(201);
+    expect(response.json().email).toBe('grace@example.com');
+  });
+
+  it('stores client errors but not the requests rejected before the handler', async () => {
+    await createUser(ada);
+
+    const duplicate = await createUser(ada, 'key-1');
+    const replayed = await createUser(ada, 'key-1');
+    const invalid = await createUser({ email: 'not-an-email' }, 'key-2');
+
+    expect(duplicate.statusCode).toBe(409);
+    expect(replayed.statusCode).toBe(409);
+    expect(replayed.headers['idempotent-replayed']).toBe('true');
+    expect(invalid.statusCode).toBe(400);
+    expect(await testApp.db.select({ key: idempotencyKeys.key }).from(idempotencyKeys)).toEqual([{ key: 'key-1' }]);
+  });
+
+  it('rejects an overlong key with 400', async () => {
+    const response = await createUser(ada, 'k'.repeat(256));
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json().code).toBe('VALIDATION_ERROR');
+  });
+});
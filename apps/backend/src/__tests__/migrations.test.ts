@@ -0,0 +1,104 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+  asc,
+  eq,
+  PERMISSION_KEYS,
+  permissions,
+  rolePermissions,
+  roles,
+  users,
+} from "@app/db";
+import { createTestDatabase, type TestDatabase } from "@app/db/testing";
+
+// The schema `db:push` created before the project had migrations
+const PUSHED_SCHEMA = `
+  CREATE TYPE "user_role" AS ENUM ('user', 'admin');
+  CREATE TABLE "users" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "name" text,
+    "created_at" timestamp DEFAULT now() NOT NULL,
+    "updated_at" timestamp DEFAULT now() NOT NULL,
+    "email" text NOT NULL,
+    "role" "user_role" DEFAULT 'user' NOT NULL,
+    "address" text NOT NULL,
+    CONSTRAINT "users_email_unique" UNIQUE("email"),
+    CONSTRAINT "users_address_unique" UNIQUE("address")
+  );
+  INSERT INTO "users" ("id", "name", "email", "role", "address") VALUES
+    ('00000000-0000-4000-8000-000000000001', 'Ada', 'Ada@Example.com', 'admin', '1 Pushed street'),
+    ('00000000-0000-4000-8000-000000000002', NULL, 'bob@example.com', 'user', '2 Pushed street');
+`;
+
+describe("migrations on a database created with db:push", () => {
+  let database: TestDatabase;
+
+  beforeAll(async () => {
+    database = await createTestDatabase({
+      setup: (client) => client.exec(PUSHED_SCHEMA),
+    });
+  });
+
+  afterAll(async () => {
+    await database.close();
+  });
+
+  it("keeps the existing users, with lower-cased emails and text roles", async () => {
+    const rows = await database.db
+      .select({
+        id: users.id,
+        name: users.name,
+        email: users.email,
+        role: users.role,
+        address: users.address,
+      })
+      .from(users)
+      .orderBy(asc(users.address));
+
+    expect(rows).toEqual([
+      {
+        id: "00000000-0000-4000-8000-000000000001",
+        name: "Ada",
+        email: "ada@example.com",
+        role: "admin",
+        address: "1 Pushed street",
+      },
+      {
+        id: "00000000-0000-4000-8000-000000000002",
+        name: null,
+        email: "bob@example.com",
+        role: "user",
+        address: "2 Pushed street",
+      },
+    ]);
+  });
+
+  it("gives the admin role every permission", async () => {
+    const granted = await database.db
+      .select({ key: permissions.key })
+      .from(rolePermissions)
+      .innerJoin(roles, eq(roles.id, rolePermissions.roleId))
+      .innerJoin(permissions, eq(permissions.id, rolePermissions.permissionId))
+      .where(eq(roles.name, "admin"));
+
+    expect(granted.map(({ key }) => key).sort()).toEqual(
+      [...PERMISSION_KEYS].sort(),
+    );
+  });
+
+  it("drops the old table and enum, and enforces known roles", async () => {
+    const leftovers = await database.client.query(
+      `SELECT to_regclass('public.users_before_migrations') AS "table", to_regtype('user_role') AS "type"`,
+    );
+    expect(leftovers.rows).toEqual([{ table: null, type: null }]);
+
+    await expect(
+      database.db
+        .insert(users)
+        .values({
+          email: "carol@example.com",
+          address: "3 Pushed street",
+          role: "owner",
+        }),
+    ).rejects.toThrow();
+  });
+});
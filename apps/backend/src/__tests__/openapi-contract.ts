@@ -0,0 +1,366 @@
+import { readFileSync } from 'node:fs';
+import Ajv2020, { type ValidateFunction } from 'ajv/dist/2020.js';
+import addFormats from 'ajv-formats';
+import fc from 'fast-check';
+import type { InjectOptions, LightMyRequestResponse } from 'fastify';
+import type { OpenAPIV3_1 } from 'openapi-types';
+
+// Property-based contract testing: requests are generated from the committed
+// openapi.json and every response must match what the document promises.
+
+/**
+ * The subset of JSON Schema (2020-12) that zod emits into the spec
+ */
+export interface JsonSchema {
+  $ref?: string;
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+  const?: unknown;
+  enum?: unknown[];
+  anyOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+}
+
+export interface Operation {
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  path: string;
+  // Whether a bearer token is required
+  secured: boolean;
+  pathParams: Parameter[];
+  queryParams: Parameter[];
+  body?: JsonSchema;
+  responses: Record<string, JsonSchema | null>;
+}
+
+interface Parameter {
+  name: string;
+  required: boolean;
+  schema: JsonSchema;
+}
+
+export interface GeneratedRequest {
+  params: Record<string, string>;
+  query: Record<string, string>;
+  body?: unknown;
+}
+
+const METHODS = ['get', 'post', 'put', 'patch', 'delete'] as const;
+
+export const loadSpec = (file: URL): OpenAPIV3_1.Document => JSON.parse(readFileSync(file, 'utf8'));
+
+/**
+ * Inline every `$ref` so schemas stand alone (the spec has no recursive schemas)
+ */
+const dereference = (spec: OpenAPIV3_1.Document, value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map((item) => dereference(spec, item));
+  if (typeof value !== 'object' || value === null) return value;
+
+  const { $ref, ...rest } = value as Record<string, unknown>;
+  if (typeof $ref === 'string') {
+    const target = $ref
+      .replace(/^#\//, '')
+      .split('/')
+      .reduce<unknown>((node, key) => (node as Record<string, unknown>)[key.replace(/~1/g, '/').replace(/~0/g, '~')], spec);
+    return dereference(spec, { ...(target as object), ...rest });
+  }
+  return Object.fromEntries(Object.entries(rest).map(([key, item]) => [key, dereference(spec, item)]));
+};
+
+/**
+ * Every operation of the spec with its inputs and documented responses
+ */
+export function listOperations(spec: OpenAPIV3_1.Document): Operation[] {
+  return Object.entries(spec.paths ?? {}).flatMap(([path, item]) =>
+    METHODS.filter((method) => item?.[method]).map((method) => {
+      const operation = dereference(spec, item![method]) as OpenAPIV3_1.OperationObject;
+      const parameters = (operation.parameters ?? []) as OpenAPIV3_1.ParameterObject[];
+      const toParameter = (parameter: OpenAPIV3_1.ParameterObject): Parameter => ({
+        name: parameter.name,
+        required: parameter.required ?? false,
+        schema: parameter.schema as JsonSchema,
+      });
+      const content = (operation.requestBody as OpenAPIV3_1.RequestBodyObject | undefined)?.content;
+
+      return {
+        method: method.toUpperCase() as Operation['method'],
+        path,
+        // An empty requirement ({}) makes the token optional
+        secured: (operation.security ?? []).length > 0 && operation.security!.every((item) => Object.keys(item).length > 0),
+        pathParams: parameters.filter((parameter) => parameter.in === 'path').map(toParameter),
+        queryParams: parameters.filter((parameter) => parameter.in === 'query').map(toParameter),
+        body: content?.['application/json']?.schema as JsonSchema | undefined,
+        responses: Object.fromEntries(
+          Object.entries(operation.responses ?? {}).map(([status, response]) => [
+            status,
+            ((response as OpenAPIV3_1.ResponseObject).content?.['application/json']?.schema as JsonSchema) ?? null,
+          ]),
+        ),
+      };
+    }),
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Validation
+// -----------------------------------------------------------------------------
+
+const ajv = addFormats(new Ajv2020({ strict: false, allErrors: true }));
+// Query and path values arrive as strings; coerce them like the zod schemas do
+const coercingAjv = addFormats(new Ajv2020({ strict: false, allErrors: true, coerceTypes: true }));
+
+const validators = new WeakMap<JsonSchema, ValidateFunction>();
+const coercingValidators = new WeakMap<JsonSchema, ValidateFunction>();
+
+const validatorFor = (schema: JsonSchema, coerce = false) => {
+  const cache = coerce ? coercingValidators : validators;
+  let validate = cache.get(schema);
+  if (!validate) {
+    validate = (coerce ? coercingAjv : ajv).compile(schema);
+    cache.set(schema, validate);
+  }
+  return validate;
+};
+
+const isValid = (schema: JsonSchema, value: unknown) => validatorFor(schema)(value);
+
+// Scalars are coerced for validation only; the caller's string is left alone
+const isValidParameter = (schema: JsonSchema, value: string) => validatorFor(schema, true)(value);
+
+/**
+ * Problems with a response, judged against the operation's documentation.
+ * Empty when the status is documented and the body matches its schema.
+ */
+export function responseProblems(operation: Operation, response: LightMyRequestResponse): string[] {
+  const status = String(response.statusCode);
+  if (!(status in operation.responses)) {
+    return [`status ${status} is not documented (documented: ${Object.keys(operation.responses).join(', ')}): ${response.body}`];
+  }
+
+  const schema = operation.responses[status];
+  if (!schema) {
+    return response.body === '' ? [] : [`status ${status} documents no body but got ${response.body}`];
+  }
+
+  let body: unknown;
+  try {
+    body = response.json();
+  } catch {
+    return [`status ${status} body is not JSON: ${response.body}`];
+  }
+
+  const validate = validatorFor(schema);
+  return validate(body)
+    ? []
+    : (validate.errors ?? []).map((error) => `body${error.instancePath} ${error.message} (${JSON.stringify(body)})`);
+}
+
+// -----------------------------------------------------------------------------
+// Generators
+// -----------------------------------------------------------------------------
+
+const patternsOf = (schema: JsonSchema) =>
+  [schema.pattern, ...(schema.allOf ?? []).map((part) => part.pattern)]
+    .filter((pattern): pattern is string => pattern !== undefined)
+    .map((pattern) => new RegExp(pattern));
+
+const stringArbitrary = (schema: JsonSchema): fc.Arbitrary<string> => {
+  switch (schema.format) {
+    case 'email':
+      return fc
+        .tuple(fc.stringMatching(/^[a-z0-9]{1,12}$/), fc.stringMatching(/^[a-z]{1,10}$/))
+        .map(([local, domain]) => `${local}@${domain}.com`);
+    case 'uuid':
+      return fc.uuid({ version: 4 });
+    case 'date-time':
+      return fc
+        .date({ min: new Date('2000-01-01T00:00:00Z'), max: new Date('2100-01-01T00:00:00Z'), noInvalidDate: true })
+        .map((date) => date.toISOString());
+  }
+
+  const minLength = schema.minLength ?? 0;
+  const maxLength = Math.min(schema.maxLength ?? minLength + 20, minLength + 40);
+  const patterns = patternsOf(schema);
+  const fitsLength = (value: string) => value.length >= minLength && value.length <= (schema.maxLength ?? Infinity);
+
+  // An anchored pattern describes the whole value; other patterns are requirements on it
+  const [anchored] = patterns.filter((pattern) => pattern.source.startsWith('^'));
+  const base = anchored ? fc.stringMatching(anchored) : fc.string({ minLength, maxLength });
+  return base.filter((value) => fitsLength(value) && patterns.every((pattern) => pattern.test(value)));
+};
+
+/**
+ * Values the schema accepts
+ */
+export function validValue(schema: JsonSchema): fc.Arbitrary<unknown> {
+  if (schema.const !== undefined) return fc.constant(schema.const);
+  if (schema.enum) return fc.constantFrom(...schema.enum);
+  if (schema.anyOf) return fc.oneof(...schema.anyOf.map(validValue));
+
+  switch (schema.type) {
+    case 'null':
+      return fc.constant(null);
+    case 'boolean':
+      return fc.boolean();
+    case 'integer':
+      return fc.integer({
+        min: schema.exclusiveMinimum !== undefined ? schema.exclusiveMinimum + 1 : (schema.minimum ?? -1000),
+        max: schema.maximum ?? 100_000,
+      });
+    case 'number':
+      return fc.double({
+        min: schema.exclusiveMinimum ?? schema.minimum ?? -1000,
+        minExcluded: schema.exclusiveMinimum !== undefined,
+        max: schema.maximum ?? 100_000,
+        noNaN: true,
+      });
+    case 'string':
+      return stringArbitrary(schema);
+    case 'array':
+      return fc.array(validValue(schema.items ?? {}), { maxLength: 5 });
+    case 'object': {
+      const properties = schema.properties ?? {};
+      return fc.record(
+        Object.fromEntries(Object.entries(properties).map(([key, property]) => [key, validValue(property)])),
+        { requiredKeys: (schema.required ?? []).filter((key) => key in properties) },
+      );
+    }
+    default:
+      return fc.jsonValue();
+  }
+}
+
+const wrongType = fc.oneof(
+  fc.integer(),
+  fc.boolean(),
+  fc.constant(null),
+  fc.string(),
+  fc.array(fc.integer(), { maxLength: 3 }),
+  fc.dictionary(fc.string({ maxLength: 5 }), fc.integer(), { maxKeys: 2 }),
+);
+
+/**
+ * JSON bodies the schema rejects: a required field missing, a field of the
+ * wrong type or shape, or not an object at all
+ */
+export function invalidBody(schema: JsonSchema): fc.Arbitrary<unknown> {
+  const required = schema.required ?? [];
+  const keys = Object.keys(schema.properties ?? {});
+  const valid = validValue(schema) as fc.Arbitrary<Record<string, unknown>>;
+
+  const candidates: fc.Arbitrary<unknown>[] = [wrongType];
+  if (required.length > 0) {
+    candidates.push(
+      fc.tuple(valid, fc.constantFrom(...required)).map(([body, key]) => {
+        const { [key]: _, ...rest } = body;
+        return rest;
+      }),
+    );
+  }
+  if (keys.length > 0) {
+    candidates.push(
+      fc.tuple(valid, fc.constantFrom(...keys), wrongType).map(([body, key, value]) => ({ ...body, [key]: value })),
+    );
+  }
+
+  return fc.oneof(...candidates).filter((body) => !isValid(schema, body));
+}
+
+// Strings a client could put in a query or path segment, to be filtered down to invalid ones
+const wireString = fc.oneof(
+  fc.stringMatching(/^[A-Za-z]{1,8}$/),
+  fc.integer({ min: -1000, max: 1_000_000 }).map(String),
+  fc.double({ min: -1000, max: 1000, noNaN: true, noDefaultInfinity: true }).map(String),
+  fc.string({ minLength: 1, maxLength: 300 }),
+);
+
+/**
+ * Wire values the parameter's schema rejects, or null when any string is accepted
+ */
+const invalidParameter = (schema: JsonSchema): fc.Arbitrary<string> | null => {
+  const constrained =
+    schema.type !== 'string' ||
+    schema.enum !== undefined ||
+    schema.format !== undefined ||
+    schema.maxLength !== undefined ||
+    patternsOf(schema).length > 0;
+
+  return constrained
+    ? wireString.filter((value) => value.trim() === value && value !== '' && !isValidParameter(schema, value))
+    : null;
+};
+
+const parameterValues = (parameters: Parameter[]) =>
+  fc.record(
+    Object.fromEntries(parameters.map((parameter) => [parameter.name, validValue(parameter.schema).map(String)])),
+    { requiredKeys: parameters.filter((parameter) => parameter.required).map((parameter) => parameter.name) },
+  ) as fc.Arbitrary<Record<string, string>>;
+
+/**
+ * Requests that satisfy every documented constraint
+ */
+export const validRequest = (operation: Operation): fc.Arbitrary<GeneratedRequest> =>
+  fc.record({
+    params: parameterValues(operation.pathParams),
+    query: parameterValues(operation.queryParams),
+    body: operation.body ? validValue(operation.body) : fc.constant(undefined),
+  });
+
+/**
+ * Requests that break exactly one documented constraint (a parameter or the body),
+ * or null when the operation takes no input that can be invalid
+ */
+export function invalidRequest(operation: Operation): fc.Arbitrary<GeneratedRequest> | null {
+  const valid = validRequest(operation);
+  const mutations: fc.Arbitrary<GeneratedRequest>[] = [];
+
+  for (const [location, parameters] of [
+    ['params', operation.pathParams],
+    ['query', operation.queryParams],
+  ] as const) {
+    for (const parameter of parameters) {
+      const invalid = invalidParameter(parameter.schema);
+      if (invalid) {
+        mutations.push(
+          fc.tuple(valid, invalid).map(([request, value]) => ({
+            ...request,
+            [location]: { ...request[location], [parameter.name]: value },
+          })),
+        );
+      }
+    }
+  }
+
+  if (operation.body) {
+    mutations.push(fc.tuple(valid, invalidBody(operation.body)).map(([request, body]) => ({ ...request, body })));
+  }
+
+  return mutations.length > 0 ? fc.oneof(...mutations) : null;
+}
+
+/**
+ * Turn a generated request into `app.inject()` options
+ */
+export function toInjectOptions(
+  operation: Operation,
+  request: GeneratedRequest,
+  headers: Record<string, string> = {},
+): InjectOptions {
+  const url = operation.path.replace(/\{(\w+)\}/g, (_, name: string) => encodeURIComponent(request.params[name]));
+  const query = new URLSearchParams(request.query).toString();
+
+  return {
+    method: operation.method,
+    url: query ? `${url}?${query}` : url,
+    headers: request.body === undefined ? headers : { ...headers, 'content-type': 'application/json' },
+    payload: request.body === undefined ? undefined : JSON.stringify(request.body),
+  };
+}
@@ -0,0 +1,54 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createTestApp, type TestApp } from './helpers.js';
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+describe('request IDs', () => {
+  let testApp: TestApp;
+
+  beforeAll(async () => {
+    testApp = await createTestApp();
+  });
+
+  afterAll(async () => {
+    await testApp.close();
+  });
+
+  // A request that fails validation, so the response carries the error envelope
+  const invalidRequest = (headers: Record<string, string>) =>
+    testApp.app.inject({ method: 'POST', url: '/api/v1/users', payload: { email: 'not-an-email' }, headers });
+
+  it('generates an ID when the caller sends none', async () => {
+    const response = await invalidRequest({});
+
+    expect(response.headers['x-request-id']).toMatch(UUID);
+    expect(response.json().requestId).toBe(response.headers['x-request-id']);
+  });
+
+  it('adopts a valid X-Correlation-ID and echoes it as X-Request-ID and in the error body', async () => {
+    const response = await invalidRequest({ 'x-correlation-id': 'frontend-1234.abc:5' });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.headers['x-request-id']).toBe('frontend-1234.abc:5');
+    expect(response.json().requestId).toBe('frontend-1234.abc:5');
+  });
+
+  it('adopts a valid X-Request-ID', async () => {
+    const response = await testApp.app.inject({
+      method: 'GET',
+      url: '/health/live',
+      headers: { 'x-request-id': 'upstream-42' },
+    });
+
+    expect(response.headers['x-request-id']).toBe('upstream-42');
+  });
+
+  it('replaces an invalid or oversized ID with a generated one', async () => {
+    for (const id of ['has spaces', 'line break', '<script>', 'a'.repeat(129)]) {
+      const response = await invalidRequest({ 'x-correlation-id': id });
+
+      expect(response.headers['x-request-id']).toMatch(UUID);
+      expect(response.json().requestId).toBe(response.headers['x-request-id']);
+    }
+  });
+});
@@ -0,0 +1,55 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { eq, roles } from '@app/db';
+import { authorizeAs, createTestApp, type TestApp } from './helpers.js';
+
+// Fail the second step of creating the role named 'broken'
+vi.mock('../lib/permissions.js', async (importOriginal) => {
+  const original = await importOriginal<typeof import('../lib/permissions.js')>();
+  return {
+    ...original,
+    setRolePermissions: async (...args: Parameters<typeof original.setRolePermissions>) => {
+      if (args[1] === 'broken') throw new Error('Assigning permissions failed');
+      return original.setRolePermissions(...args);
+    },
+  };
+});
+
+describe('roles routes', () => {
+  let testApp: TestApp;
+  let headers: Record<string, string>;
+
+  beforeAll(async () => {
+    testApp = await createTestApp();
+    ({ headers } = await authorizeAs(testApp, 'admin'));
+  });
+
+  afterAll(async () => {
+    await testApp.close();
+  });
+
+  const createRole = (body: Record<string, unknown>) =>
+    testApp.app.inject({ method: 'POST', url: '/api/v1/roles', payload: body, headers });
+
+  it('creates a role with its permissions', async () => {
+    const response = await createRole({ name: 'editor', description: 'Edits users', permissions: ['users:read'] });
+
+    expect(response.statusCode).toBe(201);
+    expect(response.json()).toEqual({ name: 'editor', description: 'Edits users', permissions: ['users:read'] });
+  });
+
+  it('rejects a duplicate name with 409 ALREADY_EXISTS', async () => {
+    await createRole({ name: 'auditor-2', permissions: [] });
+
+    const response = await createRole({ name: 'auditor-2', permissions: [] });
+
+    expect(response.statusCode).toBe(409);
+    expect(response.json().code).toBe('ALREADY_EXISTS');
+  });
+
+  it('does not leave a role behind when assigning its permissions fails', async () => {
+    const response = await createRole({ name: 'broken', permissions: ['users:read'] });
+
+    expect(response.statusCode).toBe(500);
+    expect(await testApp.db.select().from(roles).where(eq(roles.name, 'broken'))).toEqual([]);
+  });
+});
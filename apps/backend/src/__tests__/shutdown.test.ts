@@ -0,0 +1,71 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createLogger } from '@app/logger';
+import { createShutdownCoordinator } from '../lib/shutdown.js';
+
+// Fake app, pool and logger that record the order of the shutdown steps
+function createFakes({ close = () => Promise.resolve(), end = () => Promise.resolve() } = {}) {
+  const steps: string[] = [];
+  const app = {
+    markShuttingDown: vi.fn(() => steps.push('markShuttingDown')),
+    close: vi.fn(() => {
+      steps.push('app.close');
+      return close();
+    }),
+    server: { closeAllConnections: vi.fn(() => steps.push('closeAllConnections')) },
+  };
+  const pool = {
+    end: vi.fn(() => {
+      steps.push('pool.end');
+      return end();
+    }),
+  };
+  const logger = createLogger({ level: 'silent' });
+  vi.spyOn(logger, 'flush').mockImplementation(async () => {
+    steps.push('logger.flush');
+  });
+
+  return { steps, app, pool, logger };
+}
+
+describe('createShutdownCoordinator', () => {
+  it('closes the app, then the pool, then flushes the logger', async () => {
+    const { steps, app, pool, logger } = createFakes();
+    const coordinator = createShutdownCoordinator({ app, pool, logger, timeoutMs: 1_000 });
+
+    expect(await coordinator.shutdown('test')).toBe(0);
+    expect(steps).toEqual(['markShuttingDown', 'app.close', 'pool.end', 'logger.flush']);
+  });
+
+  it('drops open connections and exits with 1 when the deadline passes', async () => {
+    const { steps, app, pool, logger } = createFakes({ close: () => new Promise(() => {}) });
+    const coordinator = createShutdownCoordinator({ app, pool, logger, timeoutMs: 20 });
+
+    expect(await coordinator.shutdown('test')).toBe(1);
+    expect(steps).toEqual(['markShuttingDown', 'app.close', 'closeAllConnections', 'logger.flush']);
+    expect(pool.end).not.toHaveBeenCalled();
+  });
+
+  it('exits with 1 but keeps the connections when a step fails', async () => {
+    const { steps, app, pool, logger } = createFakes({ end: () => Promise.reject(new Error('Pool end failed')) });
+    const coordinator = createShutdownCoordinator({ app, pool, logger, timeoutMs: 1_000 });
+
+    expect(await coordinator.shutdown('test')).toBe(1);
+    expect(steps).toEqual(['markShuttingDown', 'app.close', 'pool.end', 'logger.flush']);
+    expect(app.server.closeAllConnections).not.toHaveBeenCalled();
+  });
+
+  it('runs the sequence only once', async () => {
+    const { app, pool, logger } = createFakes();
+    const coordinator = createShutdownCoordinator({ app, pool, logger, timeoutMs: 1_000 });
+
+    const first = coordinator.shutdown('SIGTERM');
+    const second = coordinator.shutdown('SIGINT');
+    expect(second).toBe(first);
+    expect(await Promise.all([first, second, coordinator.shutdown('again')])).toEqual([0, 0, 0]);
+
+    expect(app.markShuttingDown).toHaveBeenCalledTimes(1);
+    expect(app.close).toHaveBeenCalledTimes(1);
+    expect(pool.end).toHaveBeenCalledTimes(1);
+    expect(logger.flush).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,175 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { eq, sql, userCredentials, users } from '@app/db';
+import { authorizeAs, createTestApp, type TestApp } from './helpers.js';
+
+describe('updated_at', () => {
+  let testApp: TestApp;
+
+  beforeAll(async () => {
+    testApp = await createTestApp();
+  });
+
+  afterAll(async () => {
+    await testApp.close();
+  });
+
+  // Full precision: JS Dates would hide differences below a millisecond
+  const updatedAtOf = async (id: string) => {
+    const [row] = await testApp.db
+      .select({ updatedAt: sql<string>`${users.updatedAt}::text` })
+      .from(users)
+      .where(eq(users.id, id));
+    return row.updatedAt;
+  };
+
+  // PGlite's clock only has millisecond resolution, unlike Postgres
+  const waitForClock = () => new Promise((resolve) => setTimeout(resolve, 2));
+
+  const insertUser = async (email: string) => {
+    const [user] = await testApp.db.insert(users).values({ email, address: `${email} street` }).returning();
+    return user;
+  };
+
+  it('is bumped by every update of a user, whatever the query sets', async () => {
+    const user = await insertUser('ada@example.com');
+    const inserted = await updatedAtOf(user.id);
+
+    await waitForClock();
+    await testApp.db.update(users).set({ name: 'Ada' }).where(eq(users.id, user.id));
+    const renamed = await updatedAtOf(user.id);
+
+    await waitForClock();
+    // A stale value from the client does not win over the trigger
+    await testApp.db.update(users).set({ name: 'Ada King', updatedAt: user.updatedAt }).where(eq(users.id, user.id));
+    const backdated = await updatedAtOf(user.id);
+
+    expect(renamed > inserted).toBe(true);
+    expect(backdated > renamed).toBe(true);
+  });
+
+  it('differs between updates in the same transaction', async () => {
+    const user = await insertUser('grace@example.com');
+
+    const [first, second] = await testApp.db.transaction(async (tx) => {
+      const [a] = await tx
+        .update(users)
+        .set({ name: 'Grace' })
+        .where(eq(users.id, user.id))
+        .returning({ updatedAt: sql<string>`${users.updatedAt}::text` });
+      await waitForClock();
+      const [b] = await tx
+        .update(users)
+        .set({ name: 'Grace Hopper' })
+        .where(eq(users.id, user.id))
+        .returning({ updatedAt: sql<string>`${users.updatedAt}::text` });
+      return [a.updatedAt, b.updatedAt];
+    });
+
+    expect(second > first).toBe(true);
+  });
+
+  it('is bumped on user credentials', async () => {
+    const user = await insertUser('alan@example.com');
+    await testApp.db.insert(userCredentials).values({ userId: user.id, passwordHash: 'old' });
+    const credentialsUpdatedAt = async () => {
+      const [row] = await testApp.db
+        .select({ updatedAt: sql<string>`${userCredentials.updatedAt}::text` })
+        .from(userCredentials)
+        .where(eq(userCredentials.userId, user.id));
+      return row.updatedAt;
+    };
+    const before = await credentialsUpdatedAt();
+
+    await waitForClock();
+    await testApp.db.update(userCredentials).set({ passwordHash: 'new' }).where(eq(userCredentials.userId, user.id));
+
+    expect((await credentialsUpdatedAt()) > before).toBe(true);
+  });
+
+  it('is bumped by PATCH /users/:id', async () => {
+    const admin = await authorizeAs(testApp, 'admin');
+    const user = await insertUser('edsger@example.com');
+    const before = await updatedAtOf(user.id);
+
+    const response = await testApp.app.inject({
+      method: 'PATCH',
+      url: `/api/v1/users/${user.id}`,
+      payload: { name: 'Edsger' },
+      headers: admin.headers,
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect((await updatedAtOf(user.id)) > before).toBe(true);
+    expect(Date.parse(response.json().updatedAt)).toBeGreaterThanOrEqual(user.updatedAt.getTime());
+  });
+});
+
+// `pnpm db:push` creates tables without the triggers of the custom migrations
+describe('updated_at without the triggers', () => {
+  let testApp: TestApp;
+
+  beforeAll(async () => {
+    testApp = await createTestApp();
+    await testApp.db.execute(sql`DROP TRIGGER users_set_updated_at ON users`);
+    await testApp.db.execute(sql`DROP TRIGGER user_credentials_set_updated_at ON user_credentials`);
+  });
+
+  afterAll(async () => {
+    await testApp.close();
+  });
+
+  // Drizzle sets updated_at with millisecond precision; start well before that
+  const anHourAgo = () => new Date(Date.now() - 60 * 60 * 1000);
+
+  it('is still bumped by updates through Drizzle', async () => {
+    const [user] = await testApp.db
+      .insert(users)
+      .values({ email: 'ada@example.com', address: '1 Analytical Way', updatedAt: anHourAgo() })
+      .returning({ id: users.id, updatedAt: sql<string>`${users.updatedAt}::text` });
+    const [credentials] = await testApp.db
+      .insert(userCredentials)
+      .values({ userId: user.id, passwordHash: 'old', updatedAt: anHourAgo() })
+      .returning({ updatedAt: sql<string>`${userCredentials.updatedAt}::text` });
+
+    const [renamed] = await testApp.db
+      .update(users)
+      .set({ name: 'Ada' })
+      .where(eq(users.id, user.id))
+      .returning({ updatedAt: sql<string>`${users.updatedAt}::text` });
+    const [rehashed] = await testApp.db
+      .update(userCredentials)
+      .set({ passwordHash: 'new' })
+      .where(eq(userCredentials.userId, user.id))
+      .returning({ updatedAt: sql<string>`${userCredentials.updatedAt}::text` });
+
+    expect(renamed.updatedAt > user.updatedAt).toBe(true);
+    expect(rehashed.updatedAt > credentials.updatedAt).toBe(true);
+  });
+
+  it('changes the ETag on PATCH /users/:id', async () => {
+    const admin = await authorizeAs(testApp, 'admin');
+    const [user] = await testApp.db
+      .insert(users)
+      .values({ email: 'grace@example.com', address: '3 Compiler Lane', updatedAt: anHourAgo() })
+      .returning();
+    const url = `/api/v1/users/${user.id}`;
+    const etag = (await testApp.app.inject({ method: 'GET', url, headers: admin.headers })).headers.etag as string;
+
+    const updated = await testApp.app.inject({
+      method: 'PATCH',
+      url,
+      payload: { name: 'Grace' },
+      headers: { ...admin.headers, 'if-match': etag },
+    });
+    const stale = await testApp.app.inject({
+      method: 'PATCH',
+      url,
+      payload: { name: 'Grace Hopper' },
+      headers: { ...admin.headers, 'if-match': etag },
+    });
+
+    expect(updated.statusCode).toBe(200);
+    expect(updated.headers.etag).not.toBe(etag);
+    expect(stale.statusCode).toBe(412);
+  });
+});
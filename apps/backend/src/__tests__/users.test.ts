@@ -0,0 +1,368 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { sql, users } from '@app/db';
+import { authorizeAs, createTestApp, type TestApp } from './helpers.js';
+
+describe('users routes', () => {
+  let testApp: TestApp;
+  let admin: Awaited<ReturnType<typeof authorizeAs>>;
+
+  beforeAll(async () => {
+    testApp = await createTestApp();
+  });
+
+  afterAll(async () => {
+    await testApp.close();
+  });
+
+  beforeEach(async () => {
+    await testApp.db.delete(users);
+    admin = await authorizeAs(testApp, 'admin');
+  });
+
+  const createUser = (body: Record<string, unknown>, headers?: Record<string, string>) =>
+    testApp.app.inject({ method: 'POST', url: '/api/v1/users', payload: body, headers });
+
+  describe('POST /users', () => {
+    it('creates a user with the default role', async () => {
+      const response = await createUser({ name: 'Ada Lovelace', email: 'ada@example.com', address: '1 Analytical Way' });
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json()).toEqual({
+        id: expect.any(String),
+        name: 'Ada Lovelace',
+        email: 'ada@example.com',
+        address: '1 Analytical Way',
+        role: 'user',
+        createdAt: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/),
+        updatedAt: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/),
+      });
+    });
+
+    it('rejects a duplicate email with 409 ALREADY_EXISTS', async () => {
+      await createUser({ email: 'ada@example.com', address: '1 Analytical Way' });
+
+      const response = await createUser({ email: 'ada@example.com', address: '2 Difference Road' });
+
+      expect(response.statusCode).toBe(409);
+      expect(response.json()).toMatchObject({
+        code: 'ALREADY_EXISTS',
+        errors: [{ field: 'email' }],
+      });
+    });
+
+    it('stores the email lower-cased, so case does not make a second account', async () => {
+      const created = await createUser({ email: 'Ada@Example.COM', address: '1 Analytical Way' });
+
+      expect(created.json().email).toBe('ada@example.com');
+      expect((await createUser({ email: 'ADA@example.com', address: '2 Difference Road' })).statusCode).toBe(409);
+    });
+
+    it('rejects an invalid body with 400 VALIDATION_ERROR and field errors', async () => {
+      const response = await createUser({ email: 'not-an-email', address: '' });
+
+      expect(response.statusCode).toBe(400);
+      const body = response.json();
+      expect(body.code).toBe('VALIDATION_ERROR');
+      expect(body.requestId).toEqual(expect.any(String));
+      expect(body.errors.map((error: { field: string }) => error.field).sort()).toEqual(['address', 'email']);
+    });
+
+    it('forbids assigning a role without users:assign-role', async () => {
+      const response = await createUser({ email: 'eve@example.com', address: '3 Side St', role: 'admin' });
+
+      expect(response.statusCode).toBe(403);
+      expect(response.json().code).toBe('FORBIDDEN');
+    });
+
+    it('lets an admin assign a role', async () => {
+      const response = await createUser(
+        { email: 'grace@example.com', address: '4 Compiler Ct', role: 'support' },
+        admin.headers,
+      );
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json().role).toBe('support');
+    });
+  });
+
+  describe('GET /users', () => {
+    it('lists users with pagination metadata', async () => {
+      for (const n of [1, 2, 3]) {
+        await createUser({ email: `user${n}@example.com`, address: `${n} Main St` });
+      }
+
+      const response = await testApp.app.inject({
+        method: 'GET',
+        url: '/api/v1/users?perPage=2&sortBy=email&sortOrder=asc',
+        headers: admin.headers,
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = response.json();
+      // The admin making the request is a user too
+      expect(body).toMatchObject({ total: 4, page: 1, pageSize: 2, totalPages: 2 });
+      expect(body.data.map((user: { email: string }) => user.email)).toEqual([
+        admin.user.email,
+        'user1@example.com',
+      ]);
+    });
+
+    it('matches search terms literally, wildcards included', async () => {
+      await createUser({ name: '100% Ada', email: 'ada@example.com', address: '1 Main St' });
+      await createUser({ name: 'Grace', email: 'grace_h@example.com', address: '2 Main St' });
+      await createUser({ name: 'Alan', email: 'alan@example.com', address: '3 Main St' });
+
+      const search = async (term: string) => {
+        const response = await testApp.app.inject({
+          method: 'GET',
+          url: `/api/v1/users?search=${encodeURIComponent(term)}`,
+          headers: admin.headers,
+        });
+        return response.json().data.map((user: { email: string }) => user.email);
+      };
+
+      expect(await search('%')).toEqual(['ada@example.com']);
+      expect(await search('_h')).toEqual(['grace_h@example.com']);
+      expect(await search('\\')).toEqual([]);
+    });
+
+    it('rejects an out-of-range page size', async () => {
+      const response = await testApp.app.inject({ method: 'GET', url: '/api/v1/users?perPage=500', headers: admin.headers });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json()).toMatchObject({ code: 'VALIDATION_ERROR', errors: [{ field: 'perPage' }] });
+    });
+
+    it('requires authentication', async () => {
+      const response = await testApp.app.inject({ method: 'GET', url: '/api/v1/users' });
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('requires users:read', async () => {
+      const { headers } = await authorizeAs(testApp, 'user');
+
+      const response = await testApp.app.inject({ method: 'GET', url: '/api/v1/users', headers });
+
+      expect(response.statusCode).toBe(403);
+    });
+  });
+
+  describe('GET /users/cursor', () => {
+    const listPage = (query: string) =>
+      testApp.app.inject({ method: 'GET', url: `/api/v1/users/cursor?${query}`, headers: admin.headers });
+
+    it('pages through rows sharing a millisecond, each exactly once', async () => {
+      const createdAt = new Date('2025-01-01T12:00:00.123Z');
+      const rows = await testApp.db
+        .insert(users)
+        .values([1, 2, 3, 4, 5].map((n) => ({ email: `tie${n}@example.com`, address: `${n} Tie St`, createdAt })))
+        .returning();
+      // Spread two of them over the microseconds of that same millisecond
+      await testApp.db.execute(
+        sql`UPDATE ${users} SET created_at = created_at + interval '1 microsecond' WHERE id IN (${rows[0].id}, ${rows[3].id})`,
+      );
+
+      const seen: string[] = [];
+      let cursor: string | null = null;
+      do {
+        const response = await listPage(`limit=2${cursor ? `&cursor=${cursor}` : ''}`);
+        expect(response.statusCode).toBe(200);
+        const body = response.json();
+        seen.push(...body.data.map((user: { id: string }) => user.id));
+        cursor = body.nextCursor;
+      } while (cursor);
+
+      const expected = [admin.user.id, ...rows.map((row) => row.id)];
+      expect(seen).toHaveLength(expected.length);
+      expect([...seen].sort()).toEqual([...expected].sort());
+    });
+
+    it('returns a null nextCursor on the last page', async () => {
+      await createUser({ email: 'last@example.com', address: '1 Last Lane' });
+
+      const first = (await listPage('limit=1')).json();
+      expect(first.nextCursor).toEqual(expect.any(String));
+
+      const last = (await listPage(`limit=1&cursor=${first.nextCursor}`)).json();
+      expect(last.data).toHaveLength(1);
+      expect(last.nextCursor).toBeNull();
+    });
+
+    it('rejects a malformed or tampered cursor with 400 INVALID_INPUT', async () => {
+      const tampered = Buffer.from(JSON.stringify({ createdAt: '2025-01-01', id: 'not-a-uuid' })).toString('base64url');
+
+      for (const cursor of ['not-a-cursor!', tampered]) {
+        const response = await listPage(`cursor=${encodeURIComponent(cursor)}`);
+
+        expect(response.statusCode).toBe(400);
+        expect(response.json()).toMatchObject({ code: 'INVALID_INPUT', errors: [{ field: 'cursor' }] });
+      }
+    });
+  });
+
+  describe('PATCH /users/:id', () => {
+    const patch = (id: string, body: Record<string, unknown>, headers: Record<string, string>) =>
+      testApp.app.inject({ method: 'PATCH', url: `/api/v1/users/${id}`, payload: body, headers });
+
+    it('forbids changing your own role, even with users:assign-role', async () => {
+      const response = await patch(admin.user.id, { role: 'user' }, admin.headers);
+
+      expect(response.statusCode).toBe(403);
+      expect(response.json()).toMatchObject({ code: 'FORBIDDEN', message: 'You cannot change your own role' });
+    });
+
+    it('forbids a support user from raising their own role', async () => {
+      const support = await authorizeAs(testApp, 'support');
+
+      const response = await patch(support.user.id, { role: 'admin' }, support.headers);
+
+      expect(response.statusCode).toBe(403);
+      expect(response.json().message).toBe('You cannot change your own role');
+    });
+
+    it('lower-cases a changed email', async () => {
+      const response = await patch(admin.user.id, { email: 'New.Admin@Example.com' }, admin.headers);
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().email).toBe('new.admin@example.com');
+    });
+
+    it('lets a user without users:read or users:update reach only their own record', async () => {
+      const self = await authorizeAs(testApp, 'user');
+      const other = await authorizeAs(testApp, 'user');
+
+      const read = (id: string) =>
+        testApp.app.inject({ method: 'GET', url: `/api/v1/users/${id}`, headers: self.headers });
+
+      expect((await read(self.user.id)).statusCode).toBe(200);
+      expect((await patch(self.user.id, { name: 'Me' }, self.headers)).statusCode).toBe(200);
+      expect((await read(other.user.id)).statusCode).toBe(403);
+      expect((await patch(other.user.id, { name: 'Not me' }, self.headers)).statusCode).toBe(403);
+    });
+  });
+
+  describe('PUT /users/:id/password', () => {
+    const setPassword = (id: string, headers: Record<string, string>) =>
+      testApp.app.inject({
+        method: 'PUT',
+        url: `/api/v1/users/${id}/password`,
+        payload: { password: 'correct-horse-42-battery' },
+        headers,
+      });
+
+    const login = (email: string) =>
+      testApp.app.inject({
+        method: 'POST',
+        url: '/api/v1/auth/login',
+        payload: { email, password: 'correct-horse-42-battery' },
+      });
+
+    it('gives a user created without a password credentials to sign in with', async () => {
+      const { id, email } = (await createUser({ email: 'nopass@example.com', address: '1 Open Door' })).json();
+      expect((await login(email)).statusCode).toBe(401);
+
+      expect((await setPassword(id, admin.headers)).statusCode).toBe(204);
+      expect((await login(email)).statusCode).toBe(200);
+    });
+
+    it('signs out every session of the user on a reset', async () => {
+      const { id, email } = (await createUser({ email: 'reset@example.com', address: '2 Open Door' })).json();
+      await setPassword(id, admin.headers);
+      const { refreshToken } = (await login(email)).json();
+
+      await setPassword(id, admin.headers);
+
+      const refreshed = await testApp.app.inject({
+        method: 'POST',
+        url: '/api/v1/auth/refresh',
+        payload: { refreshToken },
+      });
+      expect(refreshed.statusCode).toBe(401);
+    });
+
+    it('requires users:set-password', async () => {
+      const support = await authorizeAs(testApp, 'support');
+
+      expect((await setPassword(admin.user.id, support.headers)).statusCode).toBe(403);
+    });
+
+    it('answers 404 for a missing user', async () => {
+      expect((await setPassword(crypto.randomUUID(), admin.headers)).statusCode).toBe(404);
+    });
+  });
+
+  describe('ETag / If-Match', () => {
+    const read = (id: string) =>
+      testApp.app.inject({ method: 'GET', url: `/api/v1/users/${id}`, headers: admin.headers });
+
+    const update = (id: string, body: Record<string, unknown>, ifMatch?: string) =>
+      testApp.app.inject({
+        method: 'PATCH',
+        url: `/api/v1/users/${id}`,
+        payload: body,
+        headers: ifMatch === undefined ? admin.headers : { ...admin.headers, 'if-match': ifMatch },
+      });
+
+    const remove = (id: string, ifMatch: string) =>
+      testApp.app.inject({
+        method: 'DELETE',
+        url: `/api/v1/users/${id}`,
+        headers: { ...admin.headers, 'if-match': ifMatch },
+      });
+
+    let id: string;
+
+    beforeEach(async () => {
+      id = (await createUser({ name: 'Ada', email: 'ada@example.com', address: '1 Analytical Way' })).json().id;
+    });
+
+    it('sends an ETag that changes with every update', async () => {
+      const etag = (await read(id)).headers.etag;
+      const updated = await update(id, { name: 'Ada Lovelace' }, etag as string);
+
+      expect(etag).toMatch(/^"[0-9a-f]{32}"$/);
+      expect(updated.statusCode).toBe(200);
+      expect(updated.headers.etag).not.toBe(etag);
+      expect((await read(id)).headers.etag).toBe(updated.headers.etag);
+    });
+
+    it('refuses an update based on a stale ETag with 412', async () => {
+      const etag = (await read(id)).headers.etag as string;
+      await update(id, { name: 'Ada King' }, etag);
+
+      const response = await update(id, { name: 'Ada Lovelace' }, etag);
+
+      expect(response.statusCode).toBe(412);
+      expect(response.json().code).toBe('PRECONDITION_FAILED');
+      expect((await read(id)).json().name).toBe('Ada King');
+    });
+
+    it('accepts any of several ETags, or *', async () => {
+      const etag = (await read(id)).headers.etag as string;
+
+      expect((await update(id, { name: 'Ada King' }, `"stale", ${etag}`)).statusCode).toBe(200);
+      expect((await update(id, { name: 'Ada Lovelace' }, '*')).statusCode).toBe(200);
+    });
+
+    it('applies updates without If-Match unconditionally', async () => {
+      expect((await update(id, { name: 'Ada King' })).statusCode).toBe(200);
+    });
+
+    it('refuses a delete based on a stale ETag with 412', async () => {
+      const stale = (await read(id)).headers.etag as string;
+      const current = (await update(id, { name: 'Ada King' }, stale)).headers.etag as string;
+
+      expect((await remove(id, stale)).statusCode).toBe(412);
+      expect((await remove(id, current)).statusCode).toBe(204);
+    });
+
+    it('answers 404 rather than 412 for a missing user', async () => {
+      const etag = (await read(id)).headers.etag as string;
+      await remove(id, etag);
+
+      expect((await update(id, { name: 'Ada King' }, etag)).statusCode).toBe(404);
+      expect((await remove(id, etag)).statusCode).toBe(404);
+    });
+  });
+});
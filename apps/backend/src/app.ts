@@ -1,23 +1,68 @@
-import 'dotenv/config';
-import fastify from 'fastify';
+import fastify, { type FastifyBaseLogger, type FastifyInstance } from 'fastify';
 import fastifySwagger from '@fastify/swagger';
 import fastifySwaggerUI from '@fastify/swagger-ui';
 import {
-  type FastifyZodOpenApiSchema,
-  type FastifyZodOpenApiTypeProvider,
   fastifyZodOpenApiPlugin,
   fastifyZodOpenApiTransformers,
   serializerCompiler,
   validatorCompiler,
 } from 'fastify-zod-openapi';
-import { z } from 'zod';
-import { db, users, eq } from '@app/db';
+import type { Logger } from '@app/logger';
+import type { Database } from '@app/db';
+import type { Config } from './config.js';
+import authModule from './modules/auth/index.js';
+import rolesModule from './modules/roles/index.js';
+import usersModule from './modules/users/index.js';
+import apiVersionsPlugin, { type ApiVersion } from './plugins/api-versions.js';
+import authPlugin from './plugins/auth.js';
+import authorizationPlugin from './plugins/authorization.js';
+import backgroundTasksPlugin from './plugins/background-tasks.js';
+import errorHandlerPlugin from './plugins/error-handler.js';
+import healthPlugin, { type HealthPluginOptions } from './plugins/health.js';
+import idempotencyPlugin from './plugins/idempotency.js';
+import requestIdPlugin, { genReqId } from './plugins/request-id.js';
+import requestLoggingPlugin from './plugins/request-logging.js';
+
+export interface AppDependencies {
+  db: Database;
+  logger: Logger;
+  config: Config;
+  // Connection pool behind `db`, reported by the readiness probe
+  pool?: HealthPluginOptions['pool'];
+}
 
-const app = fastify();
+/**
+ * Build the API - plugins, docs and every route - on the given dependencies.
+ * Does not listen: start it with `app.listen()` (see server.ts) or call routes
+ * in-process with `app.inject()`.
+ */
+export async function buildApp({ db, pool, logger, config }: AppDependencies): Promise<FastifyInstance> {
+  const app = fastify({
+    // Fastify derives a child logger per request from the shared logger
+    loggerInstance: logger.pino as FastifyBaseLogger,
+    // Replaced by the one-line summaries of the request-logging plugin
+    disableRequestLogging: true,
+    // Accept or generate a request ID and tag every request log line with it
+    genReqId,
+    requestIdLogLabel: 'requestId',
+    bodyLimit: config.server.bodyLimitBytes,
+    requestTimeout: config.server.requestTimeoutMs,
+  });
 
-const PORT = 3000;
+  // Versions served side by side. To retire one, set `deprecatedAt` (and
+  // `sunsetAt`, `successor`) so its responses announce the removal.
+  const apiVersions: ApiVersion[] = [
+    {
+      version: 'v1',
+      routes: async (api) => {
+        // Feature modules, each under its own prefix
+        await api.register(usersModule, { prefix: '/users', db });
+        await api.register(authModule, { prefix: '/auth', db, refreshTokenTtlMs: config.auth.refreshTokenTtlMs });
+        await api.register(rolesModule, { prefix: '/roles', db });
+      },
+    },
+  ];
 
-async function main() {
   // Set validator and serializer compilers
   app.setValidatorCompiler(validatorCompiler);
   app.setSerializerCompiler(serializerCompiler);
@@ -36,213 +81,73 @@ async function main() {
       },
       servers: [
         {
-          url: `http://localhost:${PORT}`,
-          description: 'Development server',
+          url: config.server.publicUrl,
+          description: 'API server',
         },
       ],
+      components: {
+        securitySchemes: {
+          bearerAuth: {
+            type: 'http',
+            scheme: 'bearer',
+            bearerFormat: 'JWT',
+            description: 'Access token from POST /api/v1/auth/login',
+          },
+        },
+      },
     },
     ...fastifyZodOpenApiTransformers,
   });
 
-  // Register Swagger UI
-  await app.register(fastifySwaggerUI, {
-    routePrefix: '/docs',
-    uiConfig: {
-      docExpansion: 'list',
-      deepLinking: true,
-    },
-  });
+  // Register Swagger UI (also serves the spec under <prefix>/json)
+  if (config.docs.enabled) {
+    await app.register(fastifySwaggerUI, {
+      routePrefix: config.docs.routePrefix,
+      uiConfig: {
+        docExpansion: 'list',
+        deepLinking: true,
+        // One document per API version, picked from the top bar
+        urls: apiVersions.map(({ version }) => ({ url: `${config.docs.routePrefix}/${version}/json`, name: version })),
+      },
+    });
+  }
 
-  // Define Zod schemas for request and response
-  const CreateUserRequestSchema = z.object({
-    name: z.string().min(1).optional().meta({
-      description: 'User name',
-      example: 'John Doe',
-    }),
-    email: z.string().email().meta({
-      description: 'User email address',
-      example: 'john@example.com',
-    }),
-    address: z.string().min(1).meta({
-      description: 'User address',
-      example: '123 Main St',
-    }),
-    role: z.enum(['user', 'admin']).optional().default('user').meta({
-      description: 'User role',
-      example: 'user',
-    }),
-  });
+  // app.trackBackgroundTask(): closing the app waits for work that outlives its request
+  await app.register(backgroundTasksPlugin);
 
-  const UserResponseSchema = z.object({
-    id: z.string().uuid().meta({
-      description: 'User ID',
-      example: '123e4567-e89b-12d3-a456-426614174000',
-    }),
-    name: z.string().nullable().meta({
-      description: 'User name',
-      example: 'John Doe',
-    }),
-    email: z.string().email().meta({
-      description: 'User email address',
-      example: 'john@example.com',
-    }),
-    address: z.string().meta({
-      description: 'User address',
-      example: '123 Main St',
-    }),
-    role: z.enum(['user', 'admin']).meta({
-      description: 'User role',
-      example: 'user',
-    }),
-  });
+  // Echo the request ID in the X-Request-ID response header
+  await app.register(requestIdPlugin);
 
-  const ErrorResponseSchema = z.object({
-    error: z.string().meta({
-      description: 'Error type',
-      example: 'Bad Request',
-    }),
-    message: z.string().meta({
-      description: 'Error message',
-      example: 'Validation failed',
-    }),
-  });
+  // Log a summary line (status, latency) for every response
+  await app.register(requestLoggingPlugin);
 
-  // POST /users endpoint - Create a new user in the database
-  app.withTypeProvider<FastifyZodOpenApiTypeProvider>().route({
-    method: 'POST',
-    url: '/users',
-    schema: {
-      description: 'Create a new user',
-      tags: ['users'],
-      body: CreateUserRequestSchema,
-      response: {
-        201: {
-          description: 'User created successfully',
-          content: {
-            'application/json': {
-              schema: UserResponseSchema,
-            },
-          },
-        },
-        400: {
-          description: 'Bad request - validation error',
-          content: {
-            'application/json': {
-              schema: ErrorResponseSchema,
-            },
-          },
-        },
-      },
-    } satisfies FastifyZodOpenApiSchema,
-    handler: async (request, reply) => {
-      try {
-        const { name, email, address, role } = request.body;
-
-        // Insert new user into database using Drizzle ORM
-        const [newUser] = await db
-          .insert(users)
-          .values({
-            name,
-            email,
-            address,
-            role,
-          })
-          .returning();
-
-        reply.code(201).send({
-          id: newUser.id,
-          name: newUser.name,
-          email: newUser.email,
-          address: newUser.address,
-          role: newUser.role,
-        });
-      } catch (error: any) {
-        // Log the error for debugging
-        console.error('Error creating user:', error);
-
-        // Handle duplicate email error
-        if (error.code === '23505') {
-          reply.code(400).send({
-            error: 'Bad Request',
-            message: 'Email already exists',
-          });
-        } else {
-          reply.code(400).send({
-            error: 'Bad Request',
-            message: error.message || 'Failed to create user',
-          });
-        }
-      }
-    },
+  // Map thrown errors to the shared error envelope
+  await app.register(errorHandlerPlugin);
+
+  // Liveness and readiness probes for the orchestrator
+  await app.register(healthPlugin, { db, pool, checkTimeoutMs: config.health.checkTimeoutMs });
+
+  // Register JWT authentication (adds app.authenticate and app.issueAccessToken)
+  await app.register(authPlugin, {
+    secret: config.auth.jwtSecret,
+    expiresIn: config.auth.jwtExpiresIn,
   });
 
-  // GET /users endpoint - Fetch all users from the database
-  app.withTypeProvider<FastifyZodOpenApiTypeProvider>().route({
-    method: 'GET',
-    url: '/users',
-    schema: {
-      description: 'Get all users',
-      tags: ['users'],
-      response: {
-        200: {
-          description: 'List of users',
-          content: {
-            'application/json': {
-              schema: z.array(UserResponseSchema),
-            },
-          },
-        },
-      },
-    } satisfies FastifyZodOpenApiSchema,
-    handler: async (_request, reply) => {
-      try {
-        // Fetch all users from database using Drizzle ORM
-        const allUsers = await db.select().from(users);
-
-        // Map database results to response format
-        const userList = allUsers.map((user) => ({
-          id: user.id,
-          name: user.name,
-          email: user.email,
-          address: user.address,
-          role: user.role,
-        }));
-
-        reply.send(userList);
-      } catch (error) {
-        // On error, return empty array
-        reply.send([]);
-      }
-    },
+  // Enforce `x-permissions` declared on route schemas (must be registered before routes)
+  await app.register(authorizationPlugin, { db });
+
+  // Replay responses to retried `x-idempotent` requests (must be registered before routes)
+  await app.register(idempotencyPlugin, {
+    db,
+    ttlMs: config.idempotency.keyTtlMs,
+    lockTimeoutMs: config.idempotency.lockTimeoutMs,
   });
 
-  // Start the server
-  try {
-    await app.listen({ port: PORT, host: '0.0.0.0' });
-    console.log(`🚀 Server running at http://localhost:${PORT}`);
-    console.log(`📚 Swagger UI available at http://localhost:${PORT}/docs`);
-    console.log(`📄 OpenAPI JSON available at http://localhost:${PORT}/docs/json`);
-  } catch (err) {
-    app.log.error(err);
-    process.exit(1);
-  }
+  // Every version's routes under /api/<version>, with its own OpenAPI document
+  await app.register(apiVersionsPlugin, {
+    versions: apiVersions,
+    docsPrefix: config.docs.enabled ? config.docs.routePrefix : undefined,
+  });
 
-  // Graceful shutdown handlers
-  const signals = ['SIGINT', 'SIGTERM'] as const;
-
-  for (const signal of signals) {
-    process.on(signal, async () => {
-      console.log(`\n📴 Received ${signal}, gracefully shutting down...`);
-      try {
-        await app.close();
-        console.log('✅ Server closed successfully');
-        process.exit(0);
-      } catch (err) {
-        console.error('❌ Error during shutdown:', err);
-        process.exit(1);
-      }
-    });
-  }
+  return app;
 }
-
-main();
@@ -0,0 +1,86 @@
+import { z } from 'zod';
+
+// Environment validation - every setting the server reads, with its default
+const envSchema = z.object({
+  HOST: z.string().min(1).default('0.0.0.0'),
+  PORT: z.coerce.number().int().min(1).max(65535).default(3000),
+  // Where clients reach the API; defaults to localhost on PORT
+  PUBLIC_URL: z.url().optional(),
+  LOG_LEVEL: z.enum(['fatal', 'error', 'warn', 'info', 'debug', 'trace', 'silent']).default('info'),
+
+  DOCS_ENABLED: z.stringbool().default(true),
+  DOCS_ROUTE_PREFIX: z
+    .string()
+    .regex(/^\/[\w/-]*$/, 'DOCS_ROUTE_PREFIX must be a path starting with "/"')
+    .default('/docs'),
+
+  // Limits
+  BODY_LIMIT_BYTES: z.coerce.number().int().positive().default(1024 * 1024),
+  REQUEST_TIMEOUT_MS: z.coerce.number().int().nonnegative().default(30_000),
+  HEALTH_CHECK_TIMEOUT_MS: z.coerce.number().int().positive().default(2000),
+  SHUTDOWN_TIMEOUT_MS: z.coerce.number().int().positive().default(10_000),
+
+  // Auth
+  JWT_SECRET: z.string({ error: 'JWT_SECRET is required' }).min(32, 'JWT_SECRET must be at least 32 characters'),
+  JWT_EXPIRES_IN: z.string().default('15m'),
+  REFRESH_TOKEN_TTL_DAYS: z.coerce.number().int().positive().default(30),
+
+  // How long Idempotency-Key responses are kept for replay
+  IDEMPOTENCY_KEY_TTL_HOURS: z.coerce.number().int().positive().default(24),
+  // How long an unfinished request blocks its Idempotency-Key (e.g. after a crash)
+  IDEMPOTENCY_LOCK_TIMEOUT_SECONDS: z.coerce.number().int().positive().default(60),
+});
+
+const toConfig = (env: z.infer<typeof envSchema>) => ({
+  server: {
+    host: env.HOST,
+    port: env.PORT,
+    publicUrl: (env.PUBLIC_URL ?? `http://localhost:${env.PORT}`).replace(/\/$/, ''),
+    bodyLimitBytes: env.BODY_LIMIT_BYTES,
+    // 0 disables the timeout
+    requestTimeoutMs: env.REQUEST_TIMEOUT_MS,
+  },
+  log: {
+    level: env.LOG_LEVEL,
+  },
+  docs: {
+    enabled: env.DOCS_ENABLED,
+    routePrefix: env.DOCS_ROUTE_PREFIX,
+  },
+  auth: {
+    jwtSecret: env.JWT_SECRET,
+    jwtExpiresIn: env.JWT_EXPIRES_IN,
+    refreshTokenTtlMs: env.REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000,
+  },
+  idempotency: {
+    keyTtlMs: env.IDEMPOTENCY_KEY_TTL_HOURS * 60 * 60 * 1000,
+    lockTimeoutMs: env.IDEMPOTENCY_LOCK_TIMEOUT_SECONDS * 1000,
+  },
+  health: {
+    checkTimeoutMs: env.HEALTH_CHECK_TIMEOUT_MS,
+  },
+  shutdown: {
+    timeoutMs: env.SHUTDOWN_TIMEOUT_MS,
+  },
+});
+
+export type Config = ReturnType<typeof toConfig>;
+
+export class ConfigError extends Error {
+  constructor(readonly issues: string) {
+    super(`Invalid configuration:\n${issues}`);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * Validate the environment and build the server configuration.
+ * Throws a ConfigError listing every invalid variable at once.
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): Config {
+  const result = envSchema.safeParse(env);
+  if (!result.success) {
+    throw new ConfigError(z.prettifyError(result.error));
+  }
+  return toConfig(result.data);
+}
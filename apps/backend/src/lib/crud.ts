@@ -0,0 +1,293 @@
+import { createTableSchemas, DEFAULT_READ_ONLY } from '@app/contracts';
+import { asc, count, desc, eq, getTableColumns, type Database, type Permission } from '@app/db';
+import type { AnyPgColumn, PgTable } from 'drizzle-orm/pg-core';
+import type { FastifyPluginAsync } from 'fastify';
+import type { FastifyZodOpenApiSchema, FastifyZodOpenApiTypeProvider } from 'fastify-zod-openapi';
+import { z } from 'zod';
+import { NotFoundError } from './errors.js';
+import {
+  conflictResponse,
+  createPaginatedResponseSchema,
+  ErrorResponseSchema,
+  forbiddenResponse,
+  unauthorizedResponse,
+} from './schemas.js';
+
+export type CrudOperation = 'list' | 'get' | 'create' | 'update' | 'delete';
+
+export const CRUD_OPERATIONS: readonly CrudOperation[] = ['list', 'get', 'create', 'update', 'delete'];
+
+// Tables the generator can serve: anything with an `id` primary key
+export type CrudTable = PgTable & { id: AnyPgColumn };
+
+type SchemaOverride = (schema: z.ZodObject) => z.ZodObject;
+
+export interface CrudRoutesOptions<TTable extends CrudTable> {
+  db: Database;
+  table: TTable;
+  // Singular resource name used in descriptions, e.g. 'project'
+  name: string;
+  // OpenAPI tag (defaults to `${name}s`)
+  tag?: string;
+  // Routes to register (defaults to all of them)
+  operations?: readonly CrudOperation[];
+  // Permissions each route requires, enforced by the authorization plugin
+  permissions?: Partial<Record<CrudOperation, readonly Permission[]>>;
+  // Columns clients cannot set (defaults to id, createdAt and updatedAt)
+  readOnly?: readonly (keyof TTable['$inferSelect'] & string)[];
+  // Adjust the generated schemas, e.g. hide columns from responses or tighten validation
+  schemas?: {
+    select?: SchemaOverride;
+    insert?: SchemaOverride;
+    update?: SchemaOverride;
+  };
+}
+
+const toJson = (row: Record<string, unknown>) =>
+  Object.fromEntries(Object.entries(row).map(([key, value]) => [key, value instanceof Date ? value.toISOString() : value]));
+
+const errorResponse = (description: string) => ({
+  description,
+  content: {
+    'application/json': {
+      schema: ErrorResponseSchema,
+    },
+  },
+});
+
+/**
+ * Generate list/get/create/update/delete routes for a Drizzle table
+ *
+ * Request and response schemas are derived from the table with
+ * createTableSchemas from @app/contracts, so they follow the columns (types,
+ * nullability, defaults) and show up in the OpenAPI spec. Register the plugin under the resource prefix:
+ *
+ * ```ts
+ * await app.register(createCrudRoutes({ db, table: projects, name: 'project' }), { prefix: '/projects' });
+ * ```
+ *
+ * Every route requires authentication; pass `permissions` to require more.
+ */
+export function createCrudRoutes<TTable extends CrudTable>(options: CrudRoutesOptions<TTable>): FastifyPluginAsync {
+  const { db, table, name } = options;
+  const tag = options.tag ?? `${name}s`;
+  const operations = new Set(options.operations ?? CRUD_OPERATIONS);
+  const readOnly: readonly string[] = options.readOnly ?? DEFAULT_READ_ONLY;
+
+  const derived = createTableSchemas(table, readOnly);
+  const select = (options.schemas?.select ?? ((schema) => schema))(derived.select);
+  const insert = (options.schemas?.insert ?? ((schema) => schema))(derived.insert);
+  const update = (options.schemas?.update ?? ((schema) => schema))(derived.update).refine(
+    (body) => Object.keys(body).length > 0,
+    { message: 'At least one field must be provided' },
+  );
+
+  const params = z.object({ id: derived.select.shape.id });
+
+  const columns = getTableColumns(table) as Record<string, AnyPgColumn>;
+
+  // Only real columns can be sorted on; a select override may add computed fields
+  const sortable = Object.keys(select.shape).filter((key) => key in columns) as [string, ...string[]];
+  const listQuery = z.object({
+    page: z.coerce.number().int().positive().default(1).meta({ description: 'Page number (1-based)', example: 1 }),
+    perPage: z.coerce.number().int().positive().max(100).default(20).meta({
+      description: `Number of ${tag} per page`,
+      example: 20,
+    }),
+    sortBy: z.enum(sortable).default(sortable.includes('createdAt') ? 'createdAt' : 'id').meta({
+      description: 'Field to sort by',
+    }),
+    sortOrder: z.enum(['asc', 'desc']).default('desc').meta({ description: 'Sort direction', example: 'desc' }),
+  });
+
+  const baseSchema = (operation: CrudOperation, description: string) => ({
+    description: options.permissions?.[operation]
+      ? `${description} (requires ${options.permissions[operation].join(', ')})`
+      : description,
+    tags: [tag],
+    security: [{ bearerAuth: [] }],
+    ...(options.permissions?.[operation] && { 'x-permissions': options.permissions[operation] }),
+  });
+
+  return async (app) => {
+    const routes = app.withTypeProvider<FastifyZodOpenApiTypeProvider>();
+
+    if (operations.has('list')) {
+      routes.route({
+        method: 'GET',
+        url: '',
+        onRequest: app.authenticate,
+        schema: {
+          ...baseSchema('list', `List ${tag}`),
+          querystring: listQuery,
+          response: {
+            200: {
+              description: `A page of ${tag}`,
+              content: { 'application/json': { schema: createPaginatedResponseSchema(select) } },
+            },
+            400: errorResponse('Bad request - invalid query'),
+            401: unauthorizedResponse,
+            403: forbiddenResponse,
+          },
+        } satisfies FastifyZodOpenApiSchema,
+        handler: async (request, reply) => {
+          const { page, perPage, sortBy, sortOrder } = request.query;
+          const direction = sortOrder === 'asc' ? asc : desc;
+
+          const [rows, [{ total }]] = await Promise.all([
+            db
+              .select()
+              .from(table as PgTable)
+              // Tie-break on id so pages stay stable when sort values repeat
+              .orderBy(direction(columns[sortBy]), direction(table.id))
+              .limit(perPage)
+              .offset((page - 1) * perPage),
+            db.select({ total: count() }).from(table as PgTable),
+          ]);
+
+          reply.send({
+            data: rows.map(toJson),
+            total,
+            page,
+            pageSize: perPage,
+            totalPages: Math.ceil(total / perPage),
+          });
+        },
+      });
+    }
+
+    if (operations.has('get')) {
+      routes.route({
+        method: 'GET',
+        url: '/:id',
+        onRequest: app.authenticate,
+        schema: {
+          ...baseSchema('get', `Get a ${name} by ID`),
+          params,
+          response: {
+            200: {
+              description: `The ${name}`,
+              content: { 'application/json': { schema: select } },
+            },
+            400: errorResponse('Bad request - invalid ID'),
+            401: unauthorizedResponse,
+            403: forbiddenResponse,
+            404: errorResponse(`${name} not found`),
+          },
+        } satisfies FastifyZodOpenApiSchema,
+        handler: async (request, reply) => {
+          const [row] = await db
+            .select()
+            .from(table as PgTable)
+            .where(eq(table.id, request.params.id));
+
+          if (!row) {
+            throw new NotFoundError(`${name} not found`);
+          }
+
+          reply.send(toJson(row));
+        },
+      });
+    }
+
+    if (operations.has('create')) {
+      routes.route({
+        method: 'POST',
+        url: '',
+        onRequest: app.authenticate,
+        schema: {
+          ...baseSchema('create', `Create a ${name}`),
+          body: insert,
+          response: {
+            201: {
+              description: `${name} created`,
+              content: { 'application/json': { schema: select } },
+            },
+            400: errorResponse('Bad request - validation error'),
+            401: unauthorizedResponse,
+            403: forbiddenResponse,
+            409: conflictResponse,
+          },
+        } satisfies FastifyZodOpenApiSchema,
+        handler: async (request, reply) => {
+          const [row] = await db
+            .insert(table as PgTable)
+            .values(request.body as Record<string, unknown>)
+            .returning();
+
+          reply.code(201).send(toJson(row));
+        },
+      });
+    }
+
+    if (operations.has('update')) {
+      routes.route({
+        method: 'PATCH',
+        url: '/:id',
+        onRequest: app.authenticate,
+        schema: {
+          ...baseSchema('update', `Update a ${name}`),
+          params,
+          body: update,
+          response: {
+            200: {
+              description: `${name} updated`,
+              content: { 'application/json': { schema: select } },
+            },
+            400: errorResponse('Bad request - validation error'),
+            401: unauthorizedResponse,
+            403: forbiddenResponse,
+            404: errorResponse(`${name} not found`),
+            409: conflictResponse,
+          },
+        } satisfies FastifyZodOpenApiSchema,
+        handler: async (request, reply) => {
+          const [row] = await db
+            .update(table as PgTable)
+            .set(request.body as Record<string, unknown>)
+            .where(eq(table.id, request.params.id))
+            .returning();
+
+          if (!row) {
+            throw new NotFoundError(`${name} not found`);
+          }
+
+          reply.send(toJson(row));
+        },
+      });
+    }
+
+    if (operations.has('delete')) {
+      routes.route({
+        method: 'DELETE',
+        url: '/:id',
+        onRequest: app.authenticate,
+        schema: {
+          ...baseSchema('delete', `Delete a ${name}`),
+          params,
+          response: {
+            204: {
+              description: `${name} deleted`,
+            },
+            400: errorResponse('Bad request - invalid ID'),
+            401: unauthorizedResponse,
+            403: forbiddenResponse,
+            404: errorResponse(`${name} not found`),
+          },
+        } satisfies FastifyZodOpenApiSchema,
+        handler: async (request, reply) => {
+          const [row] = await db
+            .delete(table as PgTable)
+            .where(eq(table.id, request.params.id))
+            .returning({ id: table.id });
+
+          if (!row) {
+            throw new NotFoundError(`${name} not found`);
+          }
+
+          reply.code(204).send();
+        },
+      });
+    }
+  };
+}
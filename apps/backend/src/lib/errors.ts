@@ -0,0 +1,103 @@
+import { STATUS_CODES } from 'node:http';
+
+// Machine-readable error codes, shared with the frontend's ApiErrorCode
+export type ErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'INVALID_INPUT'
+  | 'UNAUTHORIZED'
+  | 'TOKEN_EXPIRED'
+  | 'INVALID_CREDENTIALS'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'ALREADY_EXISTS'
+  | 'IDEMPOTENCY_KEY_IN_USE'
+  | 'IDEMPOTENCY_KEY_REUSED'
+  | 'PRECONDITION_FAILED'
+  | 'INTERNAL_SERVER_ERROR'
+  | 'SERVICE_UNAVAILABLE';
+
+// Problem with a single input field; `field` is a dotted path such as `email` or `tags.0`
+export interface FieldError {
+  field: string;
+  message: string;
+  code?: string;
+}
+
+// Body of every error response; the error handler adds the request ID
+export interface ErrorBody {
+  error: string;
+  code: ErrorCode;
+  message: string;
+  errors?: FieldError[];
+  requestId?: string;
+}
+
+/**
+ * Error with an HTTP status, turned into an error response by the error handler.
+ * Throw it from handlers and hooks instead of building the reply by hand.
+ */
+export class HttpError extends Error {
+  constructor(
+    readonly statusCode: number,
+    readonly code: ErrorCode,
+    message: string,
+    readonly errors?: FieldError[],
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+
+  toBody(): ErrorBody {
+    return toErrorBody(this.statusCode, this.code, this.message, this.errors);
+  }
+}
+
+export class BadRequestError extends HttpError {
+  constructor(message: string, errors?: FieldError[], code: ErrorCode = 'INVALID_INPUT') {
+    super(400, code, message, errors);
+  }
+}
+
+export class UnauthorizedError extends HttpError {
+  constructor(message = 'Missing or invalid access token', code: ErrorCode = 'UNAUTHORIZED') {
+    super(401, code, message);
+  }
+}
+
+export class ForbiddenError extends HttpError {
+  constructor(message = 'You do not have permission to perform this action') {
+    super(403, 'FORBIDDEN', message);
+  }
+}
+
+export class NotFoundError extends HttpError {
+  constructor(message = 'Resource not found') {
+    super(404, 'NOT_FOUND', message);
+  }
+}
+
+export class ConflictError extends HttpError {
+  constructor(message: string, errors?: FieldError[], code: ErrorCode = 'CONFLICT') {
+    super(409, code, message, errors);
+  }
+}
+
+// The resource changed since the client read it (If-Match did not match)
+export class PreconditionFailedError extends HttpError {
+  constructor(message = 'The resource was modified since it was read') {
+    super(412, 'PRECONDITION_FAILED', message);
+  }
+}
+
+export const toErrorBody = (
+  statusCode: number,
+  code: ErrorCode,
+  message: string,
+  errors?: FieldError[],
+): ErrorBody => ({
+  error: STATUS_CODES[statusCode] ?? 'Error',
+  code,
+  message,
+  ...(errors?.length ? { errors } : {}),
+});
@@ -0,0 +1,22 @@
+// Strong entity tags (RFC 9110 section 8.8.3) for optimistic concurrency: a
+// client reads a resource with its ETag, then sends it back in If-Match so the
+// write only applies if nobody changed the resource in between.
+
+// Versions are opaque tokens from the database (hex digests), so they never need escaping
+export const formatETag = (version: string) => `"${version}"`;
+
+/**
+ * The versions an If-Match header accepts: undefined when the header is absent
+ * or `*` (any current version), otherwise the listed entity tags. Weak tags
+ * (`W/"..."`) never match under the strong comparison If-Match requires, so
+ * they are dropped.
+ */
+export function parseIfMatch(header: string | undefined): string[] | undefined {
+  if (header === undefined || header.trim() === '*') return undefined;
+
+  return header
+    .split(',')
+    .map((tag) => tag.trim())
+    .filter((tag) => /^"[^"]*"$/.test(tag))
+    .map((tag) => tag.slice(1, -1));
+}
@@ -0,0 +1,115 @@
+import { idempotencyKeys, and, eq, isNull, lte, or, sql, type Database } from '@app/db';
+
+// Response stored for a key and sent again on retries
+export interface StoredResponse {
+  statusCode: number;
+  contentType: string | null;
+  body: string | null;
+}
+
+export interface IdempotencyKeyClaim {
+  key: string;
+  // Caller the key belongs to; undefined for anonymous requests
+  userId?: string;
+  fingerprint: string;
+  ttlMs: number;
+  // How long a claim without a response blocks the key before it is taken over
+  lockTimeoutMs: number;
+}
+
+export type ClaimIdempotencyKeyResult =
+  // First use: run the request, then save or release the key
+  | { status: 'claimed'; id: string }
+  | { status: 'completed'; response: StoredResponse }
+  // The key was used for a different request
+  | { status: 'mismatch' }
+  // The first request with the key has not finished yet
+  | { status: 'in-progress' };
+
+/**
+ * Claim an idempotency key for a request, or report what happened to the
+ * request that claimed it first
+ *
+ * Claiming is a single insert, so of two concurrent requests with the same key
+ * exactly one runs. An expired key is taken over as if it were new, and so is
+ * one whose request has held it for `lockTimeoutMs` without storing a response
+ * (the process most likely died). A takeover gets a new ID, so a request that
+ * lost its claim this way can no longer save or release it.
+ */
+export async function claimIdempotencyKey(
+  db: Database,
+  { key, userId, fingerprint, ttlMs, lockTimeoutMs }: IdempotencyKeyClaim,
+): Promise<ClaimIdempotencyKeyResult> {
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + ttlMs);
+  const lockedSince = new Date(now.getTime() - lockTimeoutMs);
+
+  const [claimed] = await db
+    .insert(idempotencyKeys)
+    .values({ key, userId, fingerprint, expiresAt })
+    .onConflictDoUpdate({
+      target: [idempotencyKeys.key, idempotencyKeys.userId],
+      set: {
+        id: sql`gen_random_uuid()`,
+        fingerprint,
+        statusCode: null,
+        contentType: null,
+        body: null,
+        createdAt: now,
+        expiresAt,
+      },
+      where: or(
+        lte(idempotencyKeys.expiresAt, now),
+        and(isNull(idempotencyKeys.statusCode), lte(idempotencyKeys.createdAt, lockedSince)),
+      ),
+    })
+    .returning({ id: idempotencyKeys.id });
+
+  if (claimed) return { status: 'claimed', id: claimed.id };
+
+  const [stored] = await db
+    .select()
+    .from(idempotencyKeys)
+    .where(
+      and(
+        eq(idempotencyKeys.key, key),
+        userId === undefined ? isNull(idempotencyKeys.userId) : eq(idempotencyKeys.userId, userId),
+      ),
+    );
+
+  // Released between the insert and the select: let the client retry
+  if (!stored) return { status: 'in-progress' };
+
+  if (stored.fingerprint !== fingerprint) return { status: 'mismatch' };
+  if (stored.statusCode === null) return { status: 'in-progress' };
+
+  return {
+    status: 'completed',
+    response: { statusCode: stored.statusCode, contentType: stored.contentType, body: stored.body },
+  };
+}
+
+/**
+ * Store the response of a claimed key so retries get it back
+ */
+export async function saveIdempotentResponse(db: Database, id: string, response: StoredResponse): Promise<void> {
+  await db.update(idempotencyKeys).set(response).where(eq(idempotencyKeys.id, id));
+}
+
+/**
+ * Forget a claimed key without a response (the request failed and may be retried)
+ */
+export async function releaseIdempotencyKey(db: Database, id: string): Promise<void> {
+  await db.delete(idempotencyKeys).where(eq(idempotencyKeys.id, id));
+}
+
+/**
+ * Delete keys past their retention period, returning how many were removed
+ */
+export async function deleteExpiredIdempotencyKeys(db: Database): Promise<number> {
+  const deleted = await db
+    .delete(idempotencyKeys)
+    .where(lte(idempotencyKeys.expiresAt, new Date()))
+    .returning({ id: idempotencyKeys.id });
+  return deleted.length;
+}
@@ -0,0 +1,75 @@
+import { randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from 'node:crypto';
+
+// scrypt is memory-hard: N=2^15, r=8 needs 32 MiB per hash, which makes
+// large-scale GPU/ASIC guessing expensive while keeping a login around 100ms.
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 } as const;
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+const deriveKey = (password: string, salt: Buffer, params: { N: number; r: number; p: number }) =>
+  new Promise<Buffer>((resolve, reject) => {
+    const options: ScryptOptions = {
+      ...params,
+      // Default maxmem (32 MiB) is exactly the working set, leave headroom
+      maxmem: 256 * params.N * params.r,
+    };
+    scrypt(password, salt, KEY_LENGTH, options, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+
+const parseHash = (stored: string) => {
+  const [algorithm, N, r, p, salt, hash] = stored.split('$');
+  if (algorithm !== 'scrypt' || !salt || !hash) return null;
+
+  return {
+    params: { N: Number(N), r: Number(r), p: Number(p) },
+    salt: Buffer.from(salt, 'base64'),
+    hash: Buffer.from(hash, 'base64'),
+  };
+};
+
+/**
+ * Hash a password for storage
+ *
+ * Output format: `scrypt$N$r$p$<salt base64>$<hash base64>` so the parameters
+ * can be raised later without invalidating existing hashes.
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const key = await deriveKey(password, salt, SCRYPT_PARAMS);
+  const { N, r, p } = SCRYPT_PARAMS;
+
+  return ['scrypt', N, r, p, salt.toString('base64'), key.toString('base64')].join('$');
+}
+
+/**
+ * Check a password against a stored hash in constant time
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const parsed = parseHash(stored);
+  if (!parsed) return false;
+
+  const key = await deriveKey(password, parsed.salt, parsed.params);
+  return key.length === parsed.hash.length && timingSafeEqual(key, parsed.hash);
+}
+
+/**
+ * Whether a stored hash was produced with weaker parameters than the current ones
+ */
+export function needsRehash(stored: string): boolean {
+  const parsed = parseHash(stored);
+  if (!parsed) return true;
+
+  const { N, r, p } = parsed.params;
+  return N < SCRYPT_PARAMS.N || r < SCRYPT_PARAMS.r || p < SCRYPT_PARAMS.p;
+}
+
+// Verified against when the email is unknown, so response timing does not
+// reveal which accounts exist
+const dummyHash = hashPassword(randomBytes(32).toString('hex'));
+
+/**
+ * Burn the same amount of work as a real verification
+ */
+export async function simulatePasswordCheck(password: string): Promise<void> {
+  await verifyPassword(password, await dummyHash);
+}
@@ -0,0 +1,88 @@
+import {
+  permissions,
+  rolePermissions,
+  roles,
+  users,
+  asc,
+  eq,
+  inArray,
+  type Database,
+  type Permission,
+} from '@app/db';
+
+export interface RoleWithPermissions {
+  name: string;
+  description: string | null;
+  permissions: Permission[];
+}
+
+/**
+ * Resolve the permissions a user currently holds through their role.
+ * Read from the database on each request, so role changes apply immediately
+ * instead of when the user's access token expires.
+ */
+export async function getUserPermissions(db: Database, userId: string): Promise<Permission[]> {
+  const rows = await db
+    .select({ key: permissions.key })
+    .from(users)
+    .innerJoin(roles, eq(roles.name, users.role))
+    .innerJoin(rolePermissions, eq(rolePermissions.roleId, roles.id))
+    .innerJoin(permissions, eq(permissions.id, rolePermissions.permissionId))
+    .where(eq(users.id, userId))
+    .orderBy(asc(permissions.key));
+
+  return rows.map((row) => row.key as Permission);
+}
+
+/**
+ * List roles with the permissions assigned to each, optionally a single role
+ */
+export async function getRolesWithPermissions(db: Database, name?: string): Promise<RoleWithPermissions[]> {
+  const rows = await db
+    .select({
+      name: roles.name,
+      description: roles.description,
+      permission: permissions.key,
+    })
+    .from(roles)
+    .leftJoin(rolePermissions, eq(rolePermissions.roleId, roles.id))
+    .leftJoin(permissions, eq(permissions.id, rolePermissions.permissionId))
+    .where(name ? eq(roles.name, name) : undefined)
+    .orderBy(asc(roles.name), asc(permissions.key));
+
+  // Fold the joined rows into one entry per role
+  const byName = new Map<string, RoleWithPermissions>();
+  for (const row of rows) {
+    const role = byName.get(row.name) ?? { name: row.name, description: row.description, permissions: [] };
+    if (row.permission) role.permissions.push(row.permission as Permission);
+    byName.set(row.name, role);
+  }
+
+  return [...byName.values()];
+}
+
+/**
+ * Replace the permissions of a role. Returns false if the role does not exist.
+ * Pass a transaction to make the change part of a larger one.
+ */
+export async function setRolePermissions(db: Database, name: string, keys: Permission[]): Promise<boolean> {
+  return db.transaction(async (tx) => {
+    const [role] = await tx.select({ id: roles.id }).from(roles).where(eq(roles.name, name));
+    if (!role) return false;
+
+    await tx.delete(rolePermissions).where(eq(rolePermissions.roleId, role.id));
+
+    if (keys.length > 0) {
+      const granted = await tx
+        .select({ id: permissions.id })
+        .from(permissions)
+        .where(inArray(permissions.key, keys));
+
+      await tx
+        .insert(rolePermissions)
+        .values(granted.map((permission) => ({ roleId: role.id, permissionId: permission.id })));
+    }
+
+    return true;
+  });
+}
@@ -0,0 +1,132 @@
+import { createHash, randomBytes, randomUUID } from 'node:crypto';
+import { refreshTokens, users, and, eq, isNull, type Database } from '@app/db';
+
+// Only a SHA-256 of each token is stored; the token itself has 256 bits of
+// entropy, so a fast hash is enough to make a leaked table useless
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const generateToken = () => randomBytes(32).toString('base64url');
+
+export interface IssuedRefreshToken {
+  refreshToken: string;
+  expiresAt: Date;
+}
+
+export type RotateRefreshTokenResult =
+  | ({ status: 'rotated'; user: typeof users.$inferSelect } & IssuedRefreshToken)
+  | { status: 'invalid' | 'expired' | 'reused' };
+
+/**
+ * Issue a refresh token, starting a new family unless one is given
+ */
+export async function issueRefreshToken(
+  db: Database,
+  userId: string,
+  ttlMs: number,
+  familyId: string = randomUUID(),
+): Promise<IssuedRefreshToken> {
+  const refreshToken = generateToken();
+  const expiresAt = new Date(Date.now() + ttlMs);
+
+  await db.insert(refreshTokens).values({
+    userId,
+    familyId,
+    tokenHash: hashToken(refreshToken),
+    expiresAt,
+  });
+
+  return { refreshToken, expiresAt };
+}
+
+/**
+ * Exchange a refresh token for a new one in the same family
+ *
+ * A token can be used exactly once. Presenting an already-rotated token means
+ * it was copied, so the whole family is revoked and the legitimate holder has
+ * to sign in again.
+ */
+export async function rotateRefreshToken(db: Database, token: string, ttlMs: number): Promise<RotateRefreshTokenResult> {
+  const [stored] = await db
+    .select()
+    .from(refreshTokens)
+    .where(eq(refreshTokens.tokenHash, hashToken(token)));
+
+  if (!stored) return { status: 'invalid' };
+
+  if (stored.revokedAt) {
+    await revokeRefreshTokenFamily(db, stored.familyId);
+    return { status: 'reused' };
+  }
+
+  if (stored.expiresAt <= new Date()) return { status: 'expired' };
+
+  const result = await db.transaction(async (tx) => {
+    const successorId = randomUUID();
+
+    // Claim the token - if a concurrent request already rotated it, this
+    // matches no rows and the token counts as reused
+    const [claimed] = await tx
+      .update(refreshTokens)
+      .set({ revokedAt: new Date(), replacedBy: successorId })
+      .where(and(eq(refreshTokens.id, stored.id), isNull(refreshTokens.revokedAt)))
+      .returning({ id: refreshTokens.id });
+
+    if (!claimed) return null;
+
+    const [user] = await tx.select().from(users).where(eq(users.id, stored.userId));
+
+    const refreshToken = generateToken();
+    const expiresAt = new Date(Date.now() + ttlMs);
+
+    await tx.insert(refreshTokens).values({
+      id: successorId,
+      userId: stored.userId,
+      familyId: stored.familyId,
+      tokenHash: hashToken(refreshToken),
+      expiresAt,
+    });
+
+    return { status: 'rotated' as const, user, refreshToken, expiresAt };
+  });
+
+  if (!result) {
+    await revokeRefreshTokenFamily(db, stored.familyId);
+    return { status: 'reused' };
+  }
+
+  return result;
+}
+
+/**
+ * Revoke every token in the family of the given token (sign out of one session)
+ */
+export async function revokeRefreshToken(db: Database, token: string): Promise<void> {
+  const [stored] = await db
+    .select({ familyId: refreshTokens.familyId })
+    .from(refreshTokens)
+    .where(eq(refreshTokens.tokenHash, hashToken(token)));
+
+  if (stored) {
+    await revokeRefreshTokenFamily(db, stored.familyId);
+  }
+}
+
+/**
+ * Revoke all active tokens in a family
+ */
+export async function revokeRefreshTokenFamily(db: Database, familyId: string): Promise<void> {
+  await db
+    .update(refreshTokens)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(refreshTokens.familyId, familyId), isNull(refreshTokens.revokedAt)));
+}
+
+/**
+ * Revoke all active tokens of a user (sign out everywhere)
+ */
+export async function revokeUserRefreshTokens(db: Database, userId: string): Promise<void> {
+  await db
+    .update(refreshTokens)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(refreshTokens.userId, userId), isNull(refreshTokens.revokedAt)));
+}
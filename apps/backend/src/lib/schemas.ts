@@ -0,0 +1,157 @@
+import type { FastifyZodOpenApiSchema } from 'fastify-zod-openapi';
+import { z } from 'zod';
+
+// Schemas and OpenAPI response objects shared by every feature module
+
+// Validation rules the frontend shares live in @app/contracts
+export {
+  passwordSchema as PasswordSchema,
+  permissionSchema as PermissionSchema,
+  roleNameSchema as RoleNameSchema,
+} from '@app/contracts';
+
+export const createPaginatedResponseSchema = <T extends z.ZodTypeAny>(itemSchema: T) =>
+  z.object({
+    data: z.array(itemSchema),
+    total: z.number().int().nonnegative().meta({
+      description: 'Total number of matching items',
+      example: 42,
+    }),
+    page: z.number().int().positive().meta({
+      description: 'Current page number',
+      example: 1,
+    }),
+    pageSize: z.number().int().positive().meta({
+      description: 'Number of items per page',
+      example: 20,
+    }),
+    totalPages: z.number().int().nonnegative().meta({
+      description: 'Total number of pages',
+      example: 3,
+    }),
+  });
+
+export const createCursorPageResponseSchema = <T extends z.ZodTypeAny>(itemSchema: T) =>
+  z.object({
+    data: z.array(itemSchema),
+    nextCursor: z.string().nullable().meta({
+      description: 'Cursor for the next page, or null when there are no more items',
+      example: null,
+    }),
+  });
+
+export const ErrorResponseSchema = z.object({
+  error: z.string().meta({
+    description: 'HTTP status text',
+    example: 'Bad Request',
+  }),
+  code: z.string().meta({
+    description: 'Machine-readable error code',
+    example: 'VALIDATION_ERROR',
+  }),
+  message: z.string().meta({
+    description: 'Error message',
+    example: 'Validation failed',
+  }),
+  requestId: z.string().meta({
+    description: 'ID of the failed request, also sent in the X-Request-ID header',
+    example: '0b7c4f3e-2d8a-4c1b-9f6e-5a3d2c1b0a99',
+  }),
+  errors: z
+    .array(
+      z.object({
+        field: z.string().meta({
+          description: 'Dotted path of the invalid field',
+          example: 'email',
+        }),
+        message: z.string().meta({
+          description: 'What is wrong with the field',
+          example: 'Invalid email address',
+        }),
+        code: z.string().optional().meta({
+          description: 'Validation rule that failed',
+          example: 'invalid_format',
+        }),
+      }),
+    )
+    .optional()
+    .meta({
+      description: 'Field-level problems, present for validation errors',
+    }),
+}).meta({ id: 'ErrorResponse' });
+
+// Any route that validates its body, query or params can answer with this
+export const validationErrorResponse = {
+  description: 'Bad request - validation error',
+  content: {
+    'application/json': {
+      schema: ErrorResponseSchema,
+    },
+  },
+};
+
+export const unauthorizedResponse = {
+  description: 'Unauthorized - missing, invalid or expired access token',
+  content: {
+    'application/json': {
+      schema: ErrorResponseSchema,
+    },
+  },
+};
+
+// Anonymous or bearer - an empty requirement marks authentication as optional
+export const optionalBearerAuth: FastifyZodOpenApiSchema['security'] = [{}, { bearerAuth: [] }];
+
+export const forbiddenResponse = {
+  description: 'Forbidden - missing permission',
+  content: {
+    'application/json': {
+      schema: ErrorResponseSchema,
+    },
+  },
+};
+
+// Headers of routes marked `x-idempotent` (see plugins/idempotency.ts)
+export const IdempotencyHeadersSchema = z.looseObject({
+  'idempotency-key': z.string().min(1).max(255).optional().meta({
+    description:
+      'Unique value (e.g. a UUID) identifying this request. Retries with the same key get the first response back instead of repeating the operation',
+    example: '8e03978e-40d5-43e8-bc93-6894a57f9324',
+  }),
+});
+
+export const idempotencyKeyReusedResponse = {
+  description: 'Unprocessable - the Idempotency-Key was already used for a different request',
+  content: {
+    'application/json': {
+      schema: ErrorResponseSchema,
+    },
+  },
+};
+
+// Headers of conditional writes (see src/lib/etag.ts)
+export const IfMatchHeadersSchema = z.looseObject({
+  'if-match': z.string().optional().meta({
+    description:
+      'ETag from a previous read. The request only applies if the resource has not changed since; otherwise it fails with 412',
+    example: '"5d41402abc4b2a76b9719d911017c592"',
+  }),
+});
+
+export const preconditionFailedResponse = {
+  description: 'Precondition failed - the resource changed since the If-Match ETag was read',
+  content: {
+    'application/json': {
+      schema: ErrorResponseSchema,
+    },
+  },
+};
+
+export const conflictResponse = {
+  description: 'Conflict - a unique value is already taken',
+  content: {
+    'application/json': {
+      schema: ErrorResponseSchema,
+    },
+  },
+};
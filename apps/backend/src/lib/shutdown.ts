@@ -0,0 +1,101 @@
+import type { Logger } from '@app/logger';
+import type { FastifyInstance } from 'fastify';
+
+export interface ShutdownOptions {
+  app: Pick<FastifyInstance, 'markShuttingDown'> & {
+    close: () => PromiseLike<unknown>;
+    server: { closeAllConnections: () => void };
+  };
+  pool: { end: () => Promise<void> };
+  logger: Logger;
+  // Deadline for draining requests and background work before forcing the exit
+  timeoutMs: number;
+}
+
+export interface ShutdownCoordinator {
+  /**
+   * Run the shutdown sequence and resolve with the exit code: 0 when everything
+   * drained in time, 1 on errors or when the deadline passed. Runs once.
+   */
+  shutdown: (reason: string) => Promise<number>;
+  /**
+   * Shut down and exit the process on the given signals. A second signal
+   * while shutting down exits immediately.
+   */
+  handleSignals: (signals: readonly NodeJS.Signals[]) => void;
+}
+
+class ShutdownTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Shutdown did not finish within ${timeoutMs}ms`);
+    this.name = 'ShutdownTimeoutError';
+  }
+}
+
+/**
+ * Create the shutdown coordinator. The sequence is:
+ * 1. fail readiness so the orchestrator stops sending traffic
+ * 2. stop accepting connections and wait for in-flight requests, then for
+ *    background work tracked with `app.trackBackgroundTask()` (`app.close()`)
+ * 3. close the database pool
+ * 4. flush the logger
+ * Steps 2-3 share one deadline; when it passes, open connections are dropped.
+ */
+export function createShutdownCoordinator({ app, pool, logger, timeoutMs }: ShutdownOptions): ShutdownCoordinator {
+  let shuttingDown: Promise<number> | undefined;
+
+  const drain = async () => {
+    await app.close();
+    logger.info('Server closed, in-flight requests and background tasks finished');
+
+    await pool.end();
+    logger.info('Database pool closed');
+  };
+
+  const run = async (reason: string): Promise<number> => {
+    logger.info(`Shutting down (${reason}), deadline ${timeoutMs}ms`);
+    app.markShuttingDown();
+
+    let timer: NodeJS.Timeout | undefined;
+    const deadline = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new ShutdownTimeoutError(timeoutMs)), timeoutMs);
+    });
+
+    let exitCode = 0;
+    try {
+      await Promise.race([drain(), deadline]);
+      logger.success('Shutdown complete');
+    } catch (err) {
+      exitCode = 1;
+      logger.error(err as Error);
+      if (err instanceof ShutdownTimeoutError) {
+        // Drop whatever is still connected so the exit is not held up further
+        app.server.closeAllConnections();
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+
+    await logger.flush();
+    return exitCode;
+  };
+
+  const shutdown = (reason: string) => {
+    shuttingDown ??= run(reason);
+    return shuttingDown;
+  };
+
+  const handleSignals = (signals: readonly NodeJS.Signals[]) => {
+    for (const signal of signals) {
+      process.on(signal, () => {
+        if (shuttingDown) {
+          // An impatient second Ctrl+C: stop waiting
+          process.exit(1);
+        }
+        shutdown(`received ${signal}`).then((exitCode) => process.exit(exitCode));
+      });
+    }
+  };
+
+  return { shutdown, handleSignals };
+}
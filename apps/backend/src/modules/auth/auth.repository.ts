@@ -0,0 +1,54 @@
+import { users, userCredentials, eq, type Database } from '@app/db';
+import {
+  issueRefreshToken,
+  revokeRefreshToken,
+  revokeUserRefreshTokens,
+  rotateRefreshToken,
+} from '../../lib/refresh-tokens.js';
+
+export type User = typeof users.$inferSelect;
+
+/**
+ * Credentials and refresh token data access. Queries only - verifying
+ * passwords and issuing access tokens live in the service.
+ */
+export function createAuthRepository(db: Database) {
+  return {
+    /**
+     * A user and their password hash; undefined when the email is unknown or
+     * the user has no password
+     */
+    async findWithPasswordHash(email: string): Promise<{ user: User; passwordHash: string } | undefined> {
+      const [row] = await db
+        .select({ user: users, passwordHash: userCredentials.passwordHash })
+        .from(users)
+        .innerJoin(userCredentials, eq(userCredentials.userId, users.id))
+        .where(eq(users.email, email));
+      return row;
+    },
+
+    async findUserById(id: string): Promise<User | undefined> {
+      const [user] = await db.select().from(users).where(eq(users.id, id));
+      return user;
+    },
+
+    async findPasswordHash(userId: string): Promise<string | undefined> {
+      const [credentials] = await db
+        .select({ passwordHash: userCredentials.passwordHash })
+        .from(userCredentials)
+        .where(eq(userCredentials.userId, userId));
+      return credentials?.passwordHash;
+    },
+
+    async setPasswordHash(userId: string, passwordHash: string): Promise<void> {
+      await db.update(userCredentials).set({ passwordHash }).where(eq(userCredentials.userId, userId));
+    },
+
+    issueRefreshToken: (userId: string, ttlMs: number) => issueRefreshToken(db, userId, ttlMs),
+    rotateRefreshToken: (token: string, ttlMs: number) => rotateRefreshToken(db, token, ttlMs),
+    revokeRefreshToken: (token: string) => revokeRefreshToken(db, token),
+    revokeUserRefreshTokens: (userId: string) => revokeUserRefreshTokens(db, userId),
+  };
+}
+
+export type AuthRepository = ReturnType<typeof createAuthRepository>;
@@ -0,0 +1,172 @@
+import type { FastifyPluginAsync } from 'fastify';
+import type { FastifyZodOpenApiSchema, FastifyZodOpenApiTypeProvider } from 'fastify-zod-openapi';
+import { ErrorResponseSchema, unauthorizedResponse, validationErrorResponse } from '../../lib/schemas.js';
+import { toUserResponse } from '../users/users.schemas.js';
+import type { AuthService } from './auth.service.js';
+import {
+  ChangePasswordRequestSchema,
+  CurrentUserResponseSchema,
+  LoginRequestSchema,
+  RefreshTokenRequestSchema,
+  TokenResponseSchema,
+} from './auth.schemas.js';
+
+export interface AuthRoutesOptions {
+  service: AuthService;
+}
+
+/**
+ * Auth HTTP routes, relative to the module prefix (`/auth`)
+ */
+export const authRoutes: FastifyPluginAsync<AuthRoutesOptions> = async (app, { service }) => {
+  // POST /auth/login endpoint - Exchange credentials for an access token
+  app.withTypeProvider<FastifyZodOpenApiTypeProvider>().route({
+    method: 'POST',
+    url: '/login',
+    schema: {
+      description: 'Sign in and receive an access token',
+      tags: ['auth'],
+      body: LoginRequestSchema,
+      response: {
+        200: {
+          description: 'Signed in successfully',
+          content: {
+            'application/json': {
+              schema: TokenResponseSchema,
+            },
+          },
+        },
+        400: validationErrorResponse,
+        401: {
+          description: 'Invalid email or password',
+          content: {
+            'application/json': {
+              schema: ErrorResponseSchema,
+            },
+          },
+        },
+      },
+    } satisfies FastifyZodOpenApiSchema,
+    handler: async (request, reply) => {
+      reply.send(await service.login(request.body));
+    },
+  });
+
+  // POST /auth/refresh endpoint - Rotate a refresh token for a new token pair
+  app.withTypeProvider<FastifyZodOpenApiTypeProvider>().route({
+    method: 'POST',
+    url: '/refresh',
+    schema: {
+      description: 'Exchange a refresh token for a new access and refresh token',
+      tags: ['auth'],
+      body: RefreshTokenRequestSchema,
+      response: {
+        200: {
+          description: 'Tokens refreshed successfully',
+          content: {
+            'application/json': {
+              schema: TokenResponseSchema,
+            },
+          },
+        },
+        400: validationErrorResponse,
+        401: {
+          description: 'Refresh token is invalid, expired or was already used',
+          content: {
+            'application/json': {
+              schema: ErrorResponseSchema,
+            },
+          },
+        },
+      },
+    } satisfies FastifyZodOpenApiSchema,
+    handler: async (request, reply) => {
+      reply.send(await service.refresh(request.body.refreshToken));
+    },
+  });
+
+  // POST /auth/logout endpoint - Revoke the session behind a refresh token
+  app.withTypeProvider<FastifyZodOpenApiTypeProvider>().route({
+    method: 'POST',
+    url: '/logout',
+    schema: {
+      description: 'Sign out by revoking a refresh token and its session',
+      tags: ['auth'],
+      body: RefreshTokenRequestSchema,
+      response: {
+        204: {
+          description: 'Signed out successfully',
+        },
+        400: validationErrorResponse,
+      },
+    } satisfies FastifyZodOpenApiSchema,
+    handler: async (request, reply) => {
+      // Always succeeds so the response reveals nothing about the token
+      await service.logout(request.body.refreshToken);
+
+      reply.code(204).send();
+    },
+  });
+
+  // POST /auth/password/change endpoint - Change the current user's password
+  app.withTypeProvider<FastifyZodOpenApiTypeProvider>().route({
+    method: 'POST',
+    url: '/password/change',
+    onRequest: app.authenticate,
+    schema: {
+      description: "Change the current user's password and sign out all sessions",
+      tags: ['auth'],
+      security: [{ bearerAuth: [] }],
+      body: ChangePasswordRequestSchema,
+      response: {
+        204: {
+          description: 'Password changed successfully',
+        },
+        400: {
+          description: 'Bad request - current password is incorrect or new password is invalid',
+          content: {
+            'application/json': {
+              schema: ErrorResponseSchema,
+            },
+          },
+        },
+        401: unauthorizedResponse,
+      },
+    } satisfies FastifyZodOpenApiSchema,
+    handler: async (request, reply) => {
+      await service.changePassword(request.user.id, request.body);
+      reply.code(204).send();
+    },
+  });
+
+  // GET /auth/me endpoint - Fetch the currently authenticated user
+  app.withTypeProvider<FastifyZodOpenApiTypeProvider>().route({
+    method: 'GET',
+    url: '/me',
+    onRequest: app.authenticate,
+    schema: {
+      description: 'Get the currently authenticated user and their effective permissions',
+      tags: ['auth'],
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: {
+          description: 'Current user',
+          content: {
+            'application/json': {
+              schema: CurrentUserResponseSchema,
+            },
+          },
+        },
+        401: unauthorizedResponse,
+      },
+    } satisfies FastifyZodOpenApiSchema,
+    handler: async (request, reply) => {
+      const user = await service.getUser(request.user.id);
+
+      reply.send({
+        ...toUserResponse(user),
+        permissions: [...(await request.getPermissions())],
+      });
+    },
+  });
+};
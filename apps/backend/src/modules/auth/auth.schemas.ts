@@ -0,0 +1,69 @@
+import { z } from 'zod';
+import { PasswordSchema, PermissionSchema } from '../../lib/schemas.js';
+import { UserResponseSchema } from '../users/users.schemas.js';
+
+export const LoginRequestSchema = z.object({
+  // Stored emails are lower-case, so sign-in ignores case
+  email: z.string().email().toLowerCase().meta({
+    description: 'User email address',
+    example: 'john@example.com',
+  }),
+  password: z.string().min(1).meta({
+    description: 'User password',
+    example: 'correct horse battery staple',
+  }),
+});
+
+export const ChangePasswordRequestSchema = z
+  .object({
+    currentPassword: z.string().min(1).meta({
+      description: 'Current password',
+      example: 'correct-horse-42-battery',
+    }),
+    newPassword: PasswordSchema,
+  })
+  .refine((body) => body.currentPassword !== body.newPassword, {
+    message: 'New password must be different from the current password',
+    path: ['newPassword'],
+  });
+
+export const TokenResponseSchema = z.object({
+  accessToken: z.string().meta({
+    description: 'Signed JWT access token',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+  }),
+  tokenType: z.literal('Bearer').meta({
+    description: 'Token type for the Authorization header',
+    example: 'Bearer',
+  }),
+  expiresIn: z.string().meta({
+    description: 'Access token lifetime',
+    example: '15m',
+  }),
+  refreshToken: z.string().meta({
+    description: 'Single-use refresh token for POST /api/v1/auth/refresh',
+    example: 'q5d0m3VfN7yZ8bC1xKp2Wg4sTjR6hLaE9uIoYnBvXcM',
+  }),
+  refreshTokenExpiresAt: z.string().datetime().meta({
+    description: 'When the refresh token expires',
+    example: '2025-02-01T00:00:00.000Z',
+  }),
+});
+
+export const RefreshTokenRequestSchema = z.object({
+  refreshToken: z.string().min(1).meta({
+    description: 'Refresh token from the last login or refresh',
+    example: 'q5d0m3VfN7yZ8bC1xKp2Wg4sTjR6hLaE9uIoYnBvXcM',
+  }),
+});
+
+export const CurrentUserResponseSchema = UserResponseSchema.extend({
+  permissions: z.array(PermissionSchema).meta({
+    description: 'Effective permissions granted by the user\'s role',
+    example: ['users:read'],
+  }),
+});
+
+export type LoginRequest = z.infer<typeof LoginRequestSchema>;
+export type ChangePasswordRequest = z.infer<typeof ChangePasswordRequestSchema>;
+export type TokenResponse = z.infer<typeof TokenResponseSchema>;
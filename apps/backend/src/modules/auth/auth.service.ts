@@ -0,0 +1,105 @@
+import type { FastifyInstance } from 'fastify';
+import { BadRequestError, UnauthorizedError } from '../../lib/errors.js';
+import { hashPassword, needsRehash, simulatePasswordCheck, verifyPassword } from '../../lib/password.js';
+import type { IssuedRefreshToken } from '../../lib/refresh-tokens.js';
+import type { AuthRepository, User } from './auth.repository.js';
+import type { ChangePasswordRequest, LoginRequest, TokenResponse } from './auth.schemas.js';
+
+export interface AuthServiceOptions {
+  issueAccessToken: FastifyInstance['issueAccessToken'];
+  refreshTokenTtlMs: number;
+}
+
+const refreshFailures = {
+  invalid: 'Invalid refresh token',
+  expired: 'Refresh token has expired',
+  reused: 'Refresh token has already been used; all sessions for it were revoked',
+};
+
+/**
+ * Sign-in, token refresh and password business logic on top of the
+ * repository. Throws HttpErrors for the error handler.
+ */
+export function createAuthService(repository: AuthRepository, { issueAccessToken, refreshTokenTtlMs }: AuthServiceOptions) {
+  // Build the token pair returned by login and refresh
+  const toTokenResponse = async (user: User, refresh: IssuedRefreshToken): Promise<TokenResponse> => {
+    const { accessToken, expiresIn } = await issueAccessToken({ id: user.id, email: user.email, role: user.role });
+
+    return {
+      accessToken,
+      tokenType: 'Bearer',
+      expiresIn,
+      refreshToken: refresh.refreshToken,
+      refreshTokenExpiresAt: refresh.expiresAt.toISOString(),
+    };
+  };
+
+  return {
+    async login({ email, password }: LoginRequest): Promise<TokenResponse> {
+      const found = await repository.findWithPasswordHash(email);
+
+      if (!found) {
+        // Spend the same time as a real check so unknown emails are not detectable
+        await simulatePasswordCheck(password);
+        throw new UnauthorizedError('Invalid email or password', 'INVALID_CREDENTIALS');
+      }
+
+      if (!(await verifyPassword(password, found.passwordHash))) {
+        throw new UnauthorizedError('Invalid email or password', 'INVALID_CREDENTIALS');
+      }
+
+      // Upgrade hashes created with older parameters while we have the plaintext
+      if (needsRehash(found.passwordHash)) {
+        await repository.setPasswordHash(found.user.id, await hashPassword(password));
+      }
+
+      // Every login starts a new refresh token family (one per session)
+      const refresh = await repository.issueRefreshToken(found.user.id, refreshTokenTtlMs);
+
+      return toTokenResponse(found.user, refresh);
+    },
+
+    async refresh(refreshToken: string): Promise<TokenResponse> {
+      const result = await repository.rotateRefreshToken(refreshToken, refreshTokenTtlMs);
+
+      if (result.status !== 'rotated') {
+        throw new UnauthorizedError(refreshFailures[result.status]);
+      }
+
+      return toTokenResponse(result.user, result);
+    },
+
+    async logout(refreshToken: string): Promise<void> {
+      await repository.revokeRefreshToken(refreshToken);
+    },
+
+    async changePassword(userId: string, { currentPassword, newPassword }: ChangePasswordRequest): Promise<void> {
+      const passwordHash = await repository.findPasswordHash(userId);
+
+      // Not a 401: the caller is authenticated, only the supplied password is wrong
+      if (!passwordHash || !(await verifyPassword(currentPassword, passwordHash))) {
+        throw new BadRequestError('Current password is incorrect', [
+          { field: 'currentPassword', message: 'Current password is incorrect' },
+        ]);
+      }
+
+      await repository.setPasswordHash(userId, await hashPassword(newPassword));
+
+      // A changed password must end every session that knew the old one
+      await repository.revokeUserRefreshTokens(userId);
+    },
+
+    async getUser(id: string): Promise<User> {
+      const user = await repository.findUserById(id);
+
+      // The token outlived the account it was issued for
+      if (!user) {
+        throw new UnauthorizedError('Missing or invalid access token');
+      }
+
+      return user;
+    },
+  };
+}
+
+export type AuthService = ReturnType<typeof createAuthService>;
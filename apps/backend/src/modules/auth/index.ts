@@ -0,0 +1,24 @@
+import type { Database } from '@app/db';
+import type { FastifyPluginAsync } from 'fastify';
+import { createAuthRepository } from './auth.repository.js';
+import { authRoutes } from './auth.routes.js';
+import { createAuthService } from './auth.service.js';
+
+export interface AuthModuleOptions {
+  db: Database;
+  refreshTokenTtlMs: number;
+}
+
+/**
+ * Auth feature module: wires repository -> service -> routes. Encapsulated,
+ * so register it with its prefix: `app.register(authModule, { prefix: '/auth', db, refreshTokenTtlMs })`.
+ */
+const authModule: FastifyPluginAsync<AuthModuleOptions> = async (app, { db, refreshTokenTtlMs }) => {
+  const service = createAuthService(createAuthRepository(db), {
+    issueAccessToken: app.issueAccessToken,
+    refreshTokenTtlMs,
+  });
+  await app.register(authRoutes, { service });
+};
+
+export default authModule;
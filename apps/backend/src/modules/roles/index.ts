@@ -0,0 +1,20 @@
+import type { Database } from '@app/db';
+import type { FastifyPluginAsync } from 'fastify';
+import { createRolesRepository } from './roles.repository.js';
+import { rolesRoutes } from './roles.routes.js';
+import { createRolesService } from './roles.service.js';
+
+export interface RolesModuleOptions {
+  db: Database;
+}
+
+/**
+ * Roles feature module: wires repository -> service -> routes. Encapsulated,
+ * so register it with its prefix: `app.register(rolesModule, { prefix: '/roles', db })`.
+ */
+const rolesModule: FastifyPluginAsync<RolesModuleOptions> = async (app, { db }) => {
+  const service = createRolesService(createRolesRepository(db));
+  await app.register(rolesRoutes, { service });
+};
+
+export default rolesModule;
@@ -0,0 +1,44 @@
+import { roles, type Database, type Permission } from '@app/db';
+import { getRolesWithPermissions, setRolePermissions, type RoleWithPermissions } from '../../lib/permissions.js';
+
+/**
+ * Roles data access. Queries only - HTTP concerns and business rules live in
+ * the service and routes.
+ */
+export function createRolesRepository(db: Database) {
+  return {
+    list: (): Promise<RoleWithPermissions[]> => getRolesWithPermissions(db),
+
+    async findByName(name: string): Promise<RoleWithPermissions | undefined> {
+      const [role] = await getRolesWithPermissions(db, name);
+      return role;
+    },
+
+    /**
+     * Insert a role together with its permissions, atomically. Returns false
+     * when the name is taken.
+     */
+    async create(values: { name: string; description?: string; permissions: Permission[] }): Promise<boolean> {
+      return db.transaction(async (tx) => {
+        const [created] = await tx
+          .insert(roles)
+          .values({ name: values.name, description: values.description })
+          .onConflictDoNothing({ target: roles.name })
+          .returning();
+
+        if (!created) return false;
+
+        await setRolePermissions(tx, values.name, values.permissions);
+        return true;
+      });
+    },
+
+    /**
+     * Replace the permissions of a role; returns false when it does not exist
+     */
+    setPermissions: (name: string, permissions: Permission[]): Promise<boolean> =>
+      setRolePermissions(db, name, permissions),
+  };
+}
+
+export type RolesRepository = ReturnType<typeof createRolesRepository>;
@@ -0,0 +1,124 @@
+import type { FastifyPluginAsync } from 'fastify';
+import type { FastifyZodOpenApiSchema, FastifyZodOpenApiTypeProvider } from 'fastify-zod-openapi';
+import { z } from 'zod';
+import {
+  conflictResponse,
+  ErrorResponseSchema,
+  forbiddenResponse,
+  unauthorizedResponse,
+  validationErrorResponse,
+} from '../../lib/schemas.js';
+import type { RolesService } from './roles.service.js';
+import {
+  CreateRoleRequestSchema,
+  RoleParamsSchema,
+  RoleResponseSchema,
+  SetRolePermissionsRequestSchema,
+} from './roles.schemas.js';
+
+export interface RolesRoutesOptions {
+  service: RolesService;
+}
+
+/**
+ * Roles HTTP routes, relative to the module prefix (`/roles`)
+ */
+export const rolesRoutes: FastifyPluginAsync<RolesRoutesOptions> = async (app, { service }) => {
+  // GET /roles endpoint - List roles and their permissions
+  app.withTypeProvider<FastifyZodOpenApiTypeProvider>().route({
+    method: 'GET',
+    url: '',
+    onRequest: app.authenticate,
+    schema: {
+      description: 'List roles and the permissions each grants (requires roles:read)',
+      tags: ['roles'],
+      security: [{ bearerAuth: [] }],
+      'x-permissions': ['roles:read'],
+      response: {
+        200: {
+          description: 'List of roles',
+          content: {
+            'application/json': {
+              schema: z.array(RoleResponseSchema),
+            },
+          },
+        },
+        401: unauthorizedResponse,
+        403: forbiddenResponse,
+      },
+    } satisfies FastifyZodOpenApiSchema,
+    handler: async (_request, reply) => {
+      reply.send(await service.list());
+    },
+  });
+
+  // POST /roles endpoint - Create a role
+  app.withTypeProvider<FastifyZodOpenApiTypeProvider>().route({
+    method: 'POST',
+    url: '',
+    onRequest: app.authenticate,
+    schema: {
+      description: 'Create a role (requires roles:manage)',
+      tags: ['roles'],
+      security: [{ bearerAuth: [] }],
+      'x-permissions': ['roles:manage'],
+      body: CreateRoleRequestSchema,
+      response: {
+        201: {
+          description: 'Role created successfully',
+          content: {
+            'application/json': {
+              schema: RoleResponseSchema,
+            },
+          },
+        },
+        400: validationErrorResponse,
+        401: unauthorizedResponse,
+        403: forbiddenResponse,
+        409: conflictResponse,
+      },
+    } satisfies FastifyZodOpenApiSchema,
+    handler: async (request, reply) => {
+      reply.code(201).send(await service.create(request.body));
+    },
+  });
+
+  // PUT /roles/:name/permissions endpoint - Replace the permissions of a role
+  app.withTypeProvider<FastifyZodOpenApiTypeProvider>().route({
+    method: 'PUT',
+    url: '/:name/permissions',
+    onRequest: app.authenticate,
+    schema: {
+      description: 'Replace the permissions granted by a role (requires roles:manage)',
+      tags: ['roles'],
+      security: [{ bearerAuth: [] }],
+      'x-permissions': ['roles:manage'],
+      params: RoleParamsSchema,
+      body: SetRolePermissionsRequestSchema,
+      response: {
+        200: {
+          description: 'Role updated successfully',
+          content: {
+            'application/json': {
+              schema: RoleResponseSchema,
+            },
+          },
+        },
+        400: validationErrorResponse,
+        401: unauthorizedResponse,
+        403: forbiddenResponse,
+        404: {
+          description: 'Role not found',
+          content: {
+            'application/json': {
+              schema: ErrorResponseSchema,
+            },
+          },
+        },
+      },
+    } satisfies FastifyZodOpenApiSchema,
+    handler: async (request, reply) => {
+      reply.send(await service.setPermissions(request.params.name, request.body.permissions));
+    },
+  });
+};
@@ -0,0 +1,48 @@
+import { z } from 'zod';
+import { PermissionSchema, RoleNameSchema } from '../../lib/schemas.js';
+
+export const RoleResponseSchema = z.object({
+  name: RoleNameSchema.meta({
+    description: 'Role name',
+    example: 'support',
+  }),
+  description: z.string().nullable().meta({
+    description: 'Role description',
+    example: 'Customer support - view and edit users',
+  }),
+  permissions: z.array(PermissionSchema).meta({
+    description: 'Permissions granted by the role',
+    example: ['users:read', 'users:update'],
+  }),
+});
+
+export const CreateRoleRequestSchema = z.object({
+  name: RoleNameSchema.meta({
+    description: 'Role name',
+    example: 'support',
+  }),
+  description: z.string().min(1).optional().meta({
+    description: 'Role description',
+    example: 'Customer support - view and edit users',
+  }),
+  permissions: z.array(PermissionSchema).optional().default([]).meta({
+    description: 'Permissions granted by the role',
+    example: ['users:read', 'users:update'],
+  }),
+});
+
+export const SetRolePermissionsRequestSchema = z.object({
+  permissions: z.array(PermissionSchema).meta({
+    description: 'The complete set of permissions the role should grant',
+    example: ['users:read', 'users:update'],
+  }),
+});
+
+export const RoleParamsSchema = z.object({
+  name: RoleNameSchema.meta({
+    description: 'Role name',
+    example: 'support',
+  }),
+});
+
+export type CreateRoleRequest = z.infer<typeof CreateRoleRequestSchema>;
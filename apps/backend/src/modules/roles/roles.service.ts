@@ -0,0 +1,43 @@
+import type { Permission } from '@app/db';
+import { ConflictError, NotFoundError } from '../../lib/errors.js';
+import type { RoleWithPermissions } from '../../lib/permissions.js';
+import type { RolesRepository } from './roles.repository.js';
+import type { CreateRoleRequest } from './roles.schemas.js';
+
+/**
+ * Roles business logic on top of the repository. Throws HttpErrors for the
+ * error handler; permission checks stay in the routes.
+ */
+export function createRolesService(repository: RolesRepository) {
+  const get = async (name: string): Promise<RoleWithPermissions> => {
+    const role = await repository.findByName(name);
+    if (!role) {
+      throw new NotFoundError('Role not found');
+    }
+    return role;
+  };
+
+  return {
+    list: () => repository.list(),
+
+    async create(values: CreateRoleRequest): Promise<RoleWithPermissions> {
+      if (!(await repository.create(values))) {
+        throw new ConflictError(
+          'Role already exists',
+          [{ field: 'name', message: 'Role already exists', code: 'unique' }],
+          'ALREADY_EXISTS',
+        );
+      }
+      return get(values.name);
+    },
+
+    async setPermissions(name: string, permissions: Permission[]): Promise<RoleWithPermissions> {
+      if (!(await repository.setPermissions(name, permissions))) {
+        throw new NotFoundError('Role not found');
+      }
+      return get(name);
+    },
+  };
+}
+
+export type RolesService = ReturnType<typeof createRolesService>;
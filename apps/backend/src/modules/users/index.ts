@@ -0,0 +1,20 @@
+import type { Database } from '@app/db';
+import type { FastifyPluginAsync } from 'fastify';
+import { createUsersRepository } from './users.repository.js';
+import { usersRoutes } from './users.routes.js';
+import { createUsersService } from './users.service.js';
+
+export interface UsersModuleOptions {
+  db: Database;
+}
+
+/**
+ * Users feature module: wires repository -> service -> routes. Encapsulated,
+ * so register it with its prefix: `app.register(usersModule, { prefix: '/users', db })`.
+ */
+const usersModule: FastifyPluginAsync<UsersModuleOptions> = async (app, { db }) => {
+  const service = createUsersService(createUsersRepository(db));
+  await app.register(usersRoutes, { service });
+};
+
+export default usersModule;
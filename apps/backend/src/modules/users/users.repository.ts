@@ -0,0 +1,198 @@
+import {
+  users,
+  userCredentials,
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  getTableColumns,
+  gte,
+  ilike,
+  inArray,
+  lt,
+  or,
+  sql,
+  type Database,
+  type SQL,
+} from '@app/db';
+import { revokeUserRefreshTokens } from '../../lib/refresh-tokens.js';
+
+export type User = typeof users.$inferSelect;
+export type NewUser = typeof users.$inferInsert;
+
+export interface UserFilters {
+  search?: string;
+  role?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+const sortColumns = {
+  createdAt: users.createdAt,
+  updatedAt: users.updatedAt,
+  name: users.name,
+  email: users.email,
+} as const;
+
+export type UserSortField = keyof typeof sortColumns;
+
+// Cursors carry the full-precision created_at text (Postgres keeps microseconds,
+// JS Dates only milliseconds) so rows sharing a millisecond are never skipped.
+export interface UserKey {
+  createdAt: string;
+  id: string;
+}
+
+// Version of a row for ETags: changes whenever updated_at does, at the full
+// microsecond precision a JS Date would lose
+const userVersion = sql<string>`md5(${users.id}::text || ${users.updatedAt}::text)`;
+
+export interface VersionedUser {
+  user: User;
+  version: string;
+}
+
+// Only apply a write when the row is at one of the given versions
+const matchesVersion = (versions?: string[]) => (versions ? inArray(userVersion, versions) : undefined);
+
+// Substring pattern for ILIKE: escape the wildcards (and the escape character
+// itself) so user input only ever matches literally
+const containsPattern = (text: string) => `%${text.replace(/[\\%_]/g, '\\$&')}%`;
+
+// Build the WHERE clause shared by the offset and cursor listings
+const buildUserFilter = (filters: UserFilters) =>
+  and(
+    filters.search
+      ? or(ilike(users.name, containsPattern(filters.search)), ilike(users.email, containsPattern(filters.search)))
+      : undefined,
+    filters.role ? eq(users.role, filters.role) : undefined,
+    filters.startDate ? gte(users.createdAt, new Date(`${filters.startDate}T00:00:00.000Z`)) : undefined,
+    // endDate is inclusive, so compare against the start of the following day
+    filters.endDate
+      ? lt(users.createdAt, new Date(new Date(`${filters.endDate}T00:00:00.000Z`).getTime() + 86_400_000))
+      : undefined,
+  );
+
+/**
+ * Users data access. Queries only - HTTP concerns and business rules live in
+ * the service and routes.
+ */
+export function createUsersRepository(db: Database) {
+  return {
+    /**
+     * Insert a user, and their credentials when a password hash is given, atomically
+     */
+    async create(values: NewUser, passwordHash?: string): Promise<User> {
+      return db.transaction(async (tx) => {
+        const [user] = await tx.insert(users).values(values).returning();
+
+        if (passwordHash) {
+          await tx.insert(userCredentials).values({ userId: user.id, passwordHash });
+        }
+
+        return user;
+      });
+    },
+
+    /**
+     * One page of matching users and the total number of matches
+     */
+    async list(options: {
+      filters: UserFilters;
+      sortBy: UserSortField;
+      sortOrder: 'asc' | 'desc';
+      limit: number;
+      offset: number;
+    }): Promise<{ rows: User[]; total: number }> {
+      const where = buildUserFilter(options.filters);
+      const direction = options.sortOrder === 'asc' ? asc : desc;
+
+      // Fetch the requested page and the total count in parallel
+      const [rows, [{ total }]] = await Promise.all([
+        db
+          .select()
+          .from(users)
+          .where(where)
+          // Tie-break on id so pages stay stable when sort values repeat
+          .orderBy(direction(sortColumns[options.sortBy]), direction(users.id))
+          .limit(options.limit)
+          .offset(options.offset),
+        db.select({ total: count() }).from(users).where(where),
+      ]);
+
+      return { rows, total };
+    },
+
+    /**
+     * Matching users newest first, starting after `after`, each with its key
+     * for continuing the listing
+     */
+    async listNewestFirst(options: {
+      filters: UserFilters;
+      after?: UserKey;
+      limit: number;
+    }): Promise<{ user: User; key: UserKey }[]> {
+      const after: SQL | undefined = options.after
+        ? sql`(${users.createdAt}, ${users.id}) < (${options.after.createdAt}::timestamp, ${options.after.id}::uuid)`
+        : undefined;
+
+      const rows = await db
+        .select({
+          user: users,
+          createdAt: sql<string>`to_char(${users.createdAt}, 'YYYY-MM-DD"T"HH24:MI:SS.US')`,
+        })
+        .from(users)
+        .where(and(buildUserFilter(options.filters), after))
+        .orderBy(desc(users.createdAt), desc(users.id))
+        .limit(options.limit);
+
+      return rows.map(({ user, createdAt }) => ({ user, key: { createdAt, id: user.id } }));
+    },
+
+    async findById(id: string): Promise<VersionedUser | undefined> {
+      const [row] = await db.select({ user: users, version: userVersion }).from(users).where(eq(users.id, id));
+      return row;
+    },
+
+    /**
+     * Update a user if it exists and, when `versions` are given, is at one of them
+     */
+    async update(id: string, values: Partial<NewUser>, versions?: string[]): Promise<VersionedUser | undefined> {
+      const [row] = await db
+        .update(users)
+        .set(values)
+        .where(and(eq(users.id, id), matchesVersion(versions)))
+        .returning({ ...getTableColumns(users), version: userVersion });
+      if (!row) return undefined;
+
+      const { version, ...user } = row;
+      return { user, version };
+    },
+
+    /**
+     * Set a user's password hash, creating their credentials if they had none
+     */
+    async setPasswordHash(id: string, passwordHash: string): Promise<void> {
+      await db
+        .insert(userCredentials)
+        .values({ userId: id, passwordHash })
+        .onConflictDoUpdate({ target: userCredentials.userId, set: { passwordHash } });
+    },
+
+    revokeRefreshTokens: (id: string) => revokeUserRefreshTokens(db, id),
+
+    /**
+     * Returns false when no user had the ID (at one of the `versions`, when given)
+     */
+    async delete(id: string, versions?: string[]): Promise<boolean> {
+      const [deleted] = await db
+        .delete(users)
+        .where(and(eq(users.id, id), matchesVersion(versions)))
+        .returning({ id: users.id });
+      return deleted !== undefined;
+    },
+  };
+}
+
+export type UsersRepository = ReturnType<typeof createUsersRepository>;
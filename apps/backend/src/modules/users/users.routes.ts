@@ -0,0 +1,323 @@
+import { DEFAULT_ROLE } from '@app/db';
+import type { FastifyPluginAsync } from 'fastify';
+import type { FastifyZodOpenApiSchema, FastifyZodOpenApiTypeProvider } from 'fastify-zod-openapi';
+import { ForbiddenError } from '../../lib/errors.js';
+import { formatETag, parseIfMatch } from '../../lib/etag.js';
+import {
+  conflictResponse,
+  createCursorPageResponseSchema,
+  createPaginatedResponseSchema,
+  ErrorResponseSchema,
+  forbiddenResponse,
+  IdempotencyHeadersSchema,
+  idempotencyKeyReusedResponse,
+  IfMatchHeadersSchema,
+  optionalBearerAuth,
+  preconditionFailedResponse,
+  unauthorizedResponse,
+  validationErrorResponse,
+} from '../../lib/schemas.js';
+import type { UsersService } from './users.service.js';
+import {
+  CreateUserRequestSchema,
+  CursorUsersQuerySchema,
+  ListUsersQuerySchema,
+  SetPasswordRequestSchema,
+  toUserResponse,
+  UpdateUserRequestSchema,
+  UserParamsSchema,
+  UserResponseSchema,
+} from './users.schemas.js';
+
+export interface UsersRoutesOptions {
+  service: UsersService;
+}
+
+/**
+ * Users HTTP routes, relative to the module prefix (`/users`)
+ */
+export const usersRoutes: FastifyPluginAsync<UsersRoutesOptions> = async (app, { service }) => {
+  // POST /users endpoint - Create a new user in the database
+  app.withTypeProvider<FastifyZodOpenApiTypeProvider>().route({
+    method: 'POST',
+    url: '',
+    // Registration is public; a token is only needed to assign a role
+    onRequest: app.authenticateOptional,
+    schema: {
+      description: 'Create a new user (setting a role other than "user" requires users:assign-role)',
+      tags: ['users'],
+      security: optionalBearerAuth,
+      // Retries with the same Idempotency-Key get the first response instead of a duplicate error
+      'x-idempotent': true,
+      headers: IdempotencyHeadersSchema,
+      body: CreateUserRequestSchema,
+      response: {
+        201: {
+          description: 'User created successfully',
+          content: {
+            'application/json': {
+              schema: UserResponseSchema,
+            },
+          },
+        },
+        400: validationErrorResponse,
+        401: unauthorizedResponse,
+        403: forbiddenResponse,
+        409: {
+          description: 'Conflict - a unique value is already taken, or a request with the same Idempotency-Key is still running',
+          content: {
+            'application/json': {
+              schema: ErrorResponseSchema,
+            },
+          },
+        },
+        422: idempotencyKeyReusedResponse,
+      },
+    } satisfies FastifyZodOpenApiSchema,
+    handler: async (request, reply) => {
+      // Prevent anonymous callers and regular users from creating privileged accounts
+      const { role } = request.body;
+      if (role !== undefined && role !== DEFAULT_ROLE && !(await request.hasPermission('users:assign-role'))) {
+        throw new ForbiddenError('You do not have permission to assign roles');
+      }
+
+      const user = await service.create(request.body);
+      reply.code(201).send(toUserResponse(user));
+    },
+  });
+
+  // GET /users endpoint - Fetch a page of users from the database
+  app.withTypeProvider<FastifyZodOpenApiTypeProvider>().route({
+    method: 'GET',
+    url: '',
+    onRequest: app.authenticate,
+    schema: {
+      description: 'Get a paginated list of users (requires users:read)',
+      tags: ['users'],
+      security: [{ bearerAuth: [] }],
+      'x-permissions': ['users:read'],
+      querystring: ListUsersQuerySchema,
+      response: {
+        200: {
+          description: 'Paginated list of users',
+          content: {
+            'application/json': {
+              schema: createPaginatedResponseSchema(UserResponseSchema),
+            },
+          },
+        },
+        400: validationErrorResponse,
+        401: unauthorizedResponse,
+        403: forbiddenResponse,
+      },
+    } satisfies FastifyZodOpenApiSchema,
+    handler: async (request, reply) => {
+      const page = await service.list(request.query);
+      reply.send({ ...page, data: page.data.map(toUserResponse) });
+    },
+  });
+
+  // GET /users/cursor endpoint - Keyset pagination for infinite scrolling
+  app.withTypeProvider<FastifyZodOpenApiTypeProvider>().route({
+    method: 'GET',
+    url: '/cursor',
+    onRequest: app.authenticate,
+    schema: {
+      operationId: 'getUsersCursor',
+      description: 'Get users newest first using an opaque cursor (for infinite scrolling, requires users:read)',
+      tags: ['users'],
+      security: [{ bearerAuth: [] }],
+      'x-permissions': ['users:read'],
+      querystring: CursorUsersQuerySchema,
+      response: {
+        200: {
+          description: 'A page of users and the cursor for the next page',
+          content: {
+            'application/json': {
+              schema: createCursorPageResponseSchema(UserResponseSchema),
+            },
+          },
+        },
+        400: {
+          description: 'Bad request - invalid query or cursor',
+          content: {
+            'application/json': {
+              schema: ErrorResponseSchema,
+            },
+          },
+        },
+        401: unauthorizedResponse,
+        403: forbiddenResponse,
+      },
+    } satisfies FastifyZodOpenApiSchema,
+    handler: async (request, reply) => {
+      const page = await service.listByCursor(request.query);
+      reply.send({ ...page, data: page.data.map(toUserResponse) });
+    },
+  });
+
+  // GET /users/:id endpoint - Fetch a single user by ID
+  app.withTypeProvider<FastifyZodOpenApiTypeProvider>().route({
+    method: 'GET',
+    url: '/:id',
+    onRequest: app.authenticate,
+    schema: {
+      description: 'Get a user by ID (requires users:read, or the user themselves)',
+      tags: ['users'],
+      security: [{ bearerAuth: [] }],
+      'x-permissions': ['users:read'],
+      'x-allow-self': true,
+      params: UserParamsSchema,
+      response: {
+        200: {
+          description: 'User found; the ETag header holds its version for If-Match',
+          content: {
+            'application/json': {
+              schema: UserResponseSchema,
+            },
+          },
+        },
+        400: validationErrorResponse,
+        401: unauthorizedResponse,
+        403: forbiddenResponse,
+        404: {
+          description: 'User not found',
+          content: {
+            'application/json': {
+              schema: ErrorResponseSchema,
+            },
+          },
+        },
+      },
+    } satisfies FastifyZodOpenApiSchema,
+    handler: async (request, reply) => {
+      const { user, version } = await service.get(request.params.id);
+      reply.header('etag', formatETag(version)).send(toUserResponse(user));
+    },
+  });
+
+  // PATCH /users/:id endpoint - Partially update a user
+  app.withTypeProvider<FastifyZodOpenApiTypeProvider>().route({
+    method: 'PATCH',
+    url: '/:id',
+    onRequest: app.authenticate,
+    schema: {
+      description: 'Update a user (requires users:update, or the user themselves; changing a role requires users:assign-role)',
+      tags: ['users'],
+      security: [{ bearerAuth: [] }],
+      'x-permissions': ['users:update'],
+      'x-allow-self': true,
+      params: UserParamsSchema,
+      headers: IfMatchHeadersSchema,
+      body: UpdateUserRequestSchema,
+      response: {
+        200: {
+          description: 'User updated successfully; the ETag header holds its new version',
+          content: {
+            'application/json': {
+              schema: UserResponseSchema,
+            },
+          },
+        },
+        400: validationErrorResponse,
+        401: unauthorizedResponse,
+        403: forbiddenResponse,
+        404: {
+          description: 'User not found',
+          content: {
+            'application/json': {
+              schema: ErrorResponseSchema,
+            },
+          },
+        },
+        409: conflictResponse,
+        412: preconditionFailedResponse,
+      },
+    } satisfies FastifyZodOpenApiSchema,
+    handler: async (request, reply) => {
+      // Nobody changes their own role - blocks self-escalation and admin lock-out
+      if (request.body.role !== undefined && request.params.id === request.user.id) {
+        throw new ForbiddenError('You cannot change your own role');
+      }
+
+      if (request.body.role !== undefined && !(await request.hasPermission('users:assign-role'))) {
+        throw new ForbiddenError('You do not have permission to assign roles');
+      }
+
+      const versions = parseIfMatch(request.headers['if-match']);
+      const { user, version } = await service.update(request.params.id, request.body, versions);
+      reply.header('etag', formatETag(version)).send(toUserResponse(user));
+    },
+  });
+
+  // PUT /users/:id/password endpoint - Set or reset a user's password
+  app.withTypeProvider<FastifyZodOpenApiTypeProvider>().route({
+    method: 'PUT',
+    url: '/:id/password',
+    onRequest: app.authenticate,
+    schema: {
+      description: "Set or reset a user's password and sign out all their sessions (requires users:set-password)",
+      tags: ['users'],
+      security: [{ bearerAuth: [] }],
+      'x-permissions': ['users:set-password'],
+      params: UserParamsSchema,
+      body: SetPasswordRequestSchema,
+      response: {
+        204: {
+          description: 'Password set successfully',
+        },
+        400: validationErrorResponse,
+        401: unauthorizedResponse,
+        403: forbiddenResponse,
+        404: {
+          description: 'User not found',
+          content: {
+            'application/json': {
+              schema: ErrorResponseSchema,
+            },
+          },
+        },
+      },
+    } satisfies FastifyZodOpenApiSchema,
+    handler: async (request, reply) => {
+      await service.setPassword(request.params.id, request.body);
+      reply.code(204).send();
+    },
+  });
+
+  // DELETE /users/:id endpoint - Remove a user
+  app.withTypeProvider<FastifyZodOpenApiTypeProvider>().route({
+    method: 'DELETE',
+    url: '/:id',
+    onRequest: app.authenticate,
+    schema: {
+      description: 'Delete a user (requires users:delete)',
+      tags: ['users'],
+      security: [{ bearerAuth: [] }],
+      'x-permissions': ['users:delete'],
+      params: UserParamsSchema,
+      headers: IfMatchHeadersSchema,
+      response: {
+        204: {
+          description: 'User deleted successfully',
+        },
+        400: validationErrorResponse,
+        401: unauthorizedResponse,
+        403: forbiddenResponse,
+        404: {
+          description: 'User not found',
+          content: {
+            'application/json': {
+              schema: ErrorResponseSchema,
+            },
+          },
+        },
+        412: preconditionFailedResponse,
+      },
+    } satisfies FastifyZodOpenApiSchema,
+    handler: async (request, reply) => {
+      await service.delete(request.params.id, parseIfMatch(request.headers['if-match']));
+      reply.code(204).send();
+    },
+  });
+};
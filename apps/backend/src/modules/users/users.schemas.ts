@@ -0,0 +1,104 @@
+import { userInsertSchema, userSelectSchema, userUpdateSchema } from '@app/contracts';
+import type { users } from '@app/db';
+import { z } from 'zod';
+import { PasswordSchema, RoleNameSchema } from '../../lib/schemas.js';
+
+// Request and response bodies follow the users table via @app/contracts
+
+export const CreateUserRequestSchema = userInsertSchema.extend({
+  password: PasswordSchema.optional(),
+});
+
+export const UserResponseSchema = userSelectSchema;
+
+export const SetPasswordRequestSchema = z.object({
+  password: PasswordSchema,
+});
+
+export const UpdateUserRequestSchema = userUpdateSchema.refine((body) => Object.keys(body).length > 0, {
+  message: 'At least one field must be provided',
+});
+
+export const UserParamsSchema = z.object({
+  id: z.string().uuid().meta({
+    description: 'User ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  }),
+});
+
+// Query params for GET /users - mirrors the frontend pagination, sort and search schemas
+export const ListUsersQuerySchema = z.object({
+  page: z.coerce.number().int().positive().default(1).meta({
+    description: 'Page number (1-based)',
+    example: 1,
+  }),
+  perPage: z.coerce.number().int().positive().max(100).default(20).meta({
+    description: 'Number of users per page',
+    example: 20,
+  }),
+  sortBy: z.enum(['createdAt', 'updatedAt', 'name', 'email']).default('createdAt').meta({
+    description: 'Field to sort by',
+    example: 'createdAt',
+  }),
+  sortOrder: z.enum(['asc', 'desc']).default('desc').meta({
+    description: 'Sort direction',
+    example: 'desc',
+  }),
+  search: z.string().min(1).optional().meta({
+    description: 'Case-insensitive match on name or email',
+    example: 'john',
+  }),
+  role: RoleNameSchema.optional().meta({
+    description: 'Only return users with this role',
+    example: 'admin',
+  }),
+  startDate: z.iso
+    .date({ message: 'Date must be a valid date in YYYY-MM-DD format' })
+    .optional()
+    .meta({
+      description: 'Only return users created on or after this date (YYYY-MM-DD)',
+      example: '2025-01-01',
+    }),
+  endDate: z.iso
+    .date({ message: 'Date must be a valid date in YYYY-MM-DD format' })
+    .optional()
+    .meta({
+      description: 'Only return users created on or before this date (YYYY-MM-DD)',
+      example: '2025-12-31',
+    }),
+});
+
+// Query params for GET /users/cursor - keyset pagination over (createdAt, id)
+export const CursorUsersQuerySchema = ListUsersQuerySchema.pick({
+  search: true,
+  role: true,
+  startDate: true,
+  endDate: true,
+}).extend({
+  cursor: z.string().min(1).optional().meta({
+    description: 'Opaque cursor returned as `nextCursor` by the previous page',
+    example: 'eyJjcmVhdGVkQXQiOiIyMDI1LTAxLTAxVDAwOjAwOjAwLjAwMDAwMCIsImlkIjoiMTIzZTQ1NjctZTg5Yi0xMmQzLWE0NTYtNDI2NjE0MTc0MDAwIn0',
+  }),
+  limit: z.coerce.number().int().positive().max(100).default(20).meta({
+    description: 'Maximum number of users to return',
+    example: 20,
+  }),
+});
+
+// Map a database row to the public response shape
+export const toUserResponse = (user: typeof users.$inferSelect): UserResponse => ({
+  id: user.id,
+  name: user.name,
+  email: user.email,
+  address: user.address,
+  role: user.role,
+  createdAt: user.createdAt.toISOString(),
+  updatedAt: user.updatedAt.toISOString(),
+});
+
+export type CreateUserRequest = z.infer<typeof CreateUserRequestSchema>;
+export type UpdateUserRequest = z.infer<typeof UpdateUserRequestSchema>;
+export type SetPasswordRequest = z.infer<typeof SetPasswordRequestSchema>;
+export type ListUsersQuery = z.infer<typeof ListUsersQuerySchema>;
+export type CursorUsersQuery = z.infer<typeof CursorUsersQuerySchema>;
+export type UserResponse = z.infer<typeof UserResponseSchema>;
@@ -0,0 +1,127 @@
+import { z } from 'zod';
+import { BadRequestError, NotFoundError, PreconditionFailedError } from '../../lib/errors.js';
+import { hashPassword } from '../../lib/password.js';
+import type { User, UserKey, UsersRepository, VersionedUser } from './users.repository.js';
+import type {
+  CreateUserRequest,
+  CursorUsersQuery,
+  ListUsersQuery,
+  SetPasswordRequest,
+  UpdateUserRequest,
+} from './users.schemas.js';
+
+const UserKeySchema = z.object({
+  createdAt: z.string().regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{6}$/),
+  id: z.string().uuid(),
+});
+
+const encodeCursor = (key: UserKey) => Buffer.from(JSON.stringify(key)).toString('base64url');
+
+const decodeCursor = (cursor: string): UserKey | null => {
+  try {
+    const result = UserKeySchema.safeParse(JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Users business logic on top of the repository. Throws HttpErrors for the
+ * error handler; permission checks stay in the routes.
+ */
+export function createUsersService(repository: UsersRepository) {
+  // Why a conditional write matched no row
+  const missingOrModified = async (id: string, versions?: string[]) =>
+    versions && (await repository.findById(id))
+      ? new PreconditionFailedError('The user was modified since it was read; reload it and try again')
+      : new NotFoundError('User not found');
+
+  return {
+    async create({ password, ...values }: CreateUserRequest): Promise<User> {
+      // Hash before the insert transaction opens - scrypt is deliberately slow
+      const passwordHash = password ? await hashPassword(password) : undefined;
+      return repository.create(values, passwordHash);
+    },
+
+    async list({ page, perPage, sortBy, sortOrder, ...filters }: ListUsersQuery) {
+      const { rows, total } = await repository.list({
+        filters,
+        sortBy,
+        sortOrder,
+        limit: perPage,
+        offset: (page - 1) * perPage,
+      });
+
+      return {
+        data: rows,
+        total,
+        page,
+        pageSize: perPage,
+        totalPages: Math.ceil(total / perPage),
+      };
+    },
+
+    async listByCursor({ cursor, limit, ...filters }: CursorUsersQuery) {
+      let after: UserKey | undefined;
+      if (cursor) {
+        const decoded = decodeCursor(cursor);
+        if (!decoded) {
+          throw new BadRequestError('Invalid cursor', [{ field: 'cursor', message: 'Invalid cursor' }]);
+        }
+        after = decoded;
+      }
+
+      // Fetch one extra row to find out whether another page exists
+      const rows = await repository.listNewestFirst({ filters, after, limit: limit + 1 });
+      const pageRows = rows.slice(0, limit);
+      const last = pageRows[pageRows.length - 1];
+
+      return {
+        data: pageRows.map(({ user }) => user),
+        nextCursor: rows.length > limit && last ? encodeCursor(last.key) : null,
+      };
+    },
+
+    async get(id: string): Promise<VersionedUser> {
+      const found = await repository.findById(id);
+      if (!found) {
+        throw new NotFoundError('User not found');
+      }
+      return found;
+    },
+
+    /**
+     * `versions` come from If-Match: when given, the user must still be at one
+     * of them or the update is refused with 412
+     */
+    async update(id: string, changes: UpdateUserRequest, versions?: string[]): Promise<VersionedUser> {
+      const updated = await repository.update(id, changes, versions);
+      if (!updated) {
+        throw await missingOrModified(id, versions);
+      }
+      return updated;
+    },
+
+    /**
+     * Set or reset a user's password - the only way to give credentials to a
+     * user created without one. Ends every session of the user.
+     */
+    async setPassword(id: string, { password }: SetPasswordRequest): Promise<void> {
+      if (!(await repository.findById(id))) {
+        throw new NotFoundError('User not found');
+      }
+
+      await repository.setPasswordHash(id, await hashPassword(password));
+      await repository.revokeRefreshTokens(id);
+    },
+
+    async delete(id: string, versions?: string[]): Promise<void> {
+      if (!(await repository.delete(id, versions))) {
+        throw await missingOrModified(id, versions);
+      }
+    },
+  };
+}
+
+export type UsersService = ReturnType<typeof createUsersService>;
@@ -0,0 +1,101 @@
+import type { FastifyPluginAsync } from 'fastify';
+import fp from 'fastify-plugin';
+import type { OpenAPIV3_1 } from 'openapi-types';
+
+export interface ApiVersion {
+  // URL segment: the version's routes are served under /api/<version>
+  version: string;
+  // Registers the version's routes, relative to its prefix
+  routes: FastifyPluginAsync;
+  // From this moment responses carry a Deprecation header and the version's
+  // operations are marked deprecated in its OpenAPI document
+  deprecatedAt?: Date;
+  // When the version will stop being served (Sunset header)
+  sunsetAt?: Date;
+  // Version clients should move to, e.g. 'v2' (sent as a successor-version link)
+  successor?: string;
+}
+
+export interface ApiVersionsPluginOptions {
+  versions: readonly ApiVersion[];
+  // Serve each version's OpenAPI document at <docsPrefix>/<version>/json; omit to skip
+  docsPrefix?: string;
+}
+
+export const apiPrefix = (version: string) => `/api/${version}`;
+
+// RFC 9745: the Deprecation header is a structured-field date (Unix seconds)
+const deprecationHeader = (date: Date) => `@${Math.floor(date.getTime() / 1000)}`;
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'] as const;
+
+/**
+ * The OpenAPI document for one version: its own paths plus the unversioned
+ * ones (health probes), with every operation marked deprecated once the
+ * version is
+ */
+export const versionDocument = (document: OpenAPIV3_1.Document, apiVersion: ApiVersion): OpenAPIV3_1.Document => {
+  const prefix = `${apiPrefix(apiVersion.version)}/`;
+  const deprecated = apiVersion.deprecatedAt !== undefined;
+
+  const paths = Object.fromEntries(
+    Object.entries(document.paths ?? {})
+      .filter(([path]) => path.startsWith(prefix) || !path.startsWith('/api/'))
+      .map(([path, item]) => {
+        if (!deprecated || !path.startsWith(prefix) || !item) return [path, item];
+        const operations = HTTP_METHODS.filter((method) => item[method]).map((method) => [
+          method,
+          { ...item[method], deprecated: true },
+        ]);
+        return [path, { ...item, ...Object.fromEntries(operations) }];
+      }),
+  );
+
+  return {
+    ...document,
+    info: { ...document.info, version: apiVersion.version },
+    paths,
+  };
+};
+
+/**
+ * API versions plugin
+ *
+ * Registers every version's routes under /api/<version>, each in its own
+ * encapsulated context. Deprecated versions keep working but answer with
+ * `Deprecation`, `Sunset` and `Link: <...>; rel="successor-version"` headers
+ * (RFC 9745, RFC 8594) so clients can notice before the version goes away.
+ * Requires @fastify/swagger for the per-version documents.
+ */
+const apiVersionsPlugin: FastifyPluginAsync<ApiVersionsPluginOptions> = async (app, { versions, docsPrefix }) => {
+  for (const apiVersion of versions) {
+    const { version, deprecatedAt, sunsetAt, successor } = apiVersion;
+
+    await app.register(
+      async (scope) => {
+        if (deprecatedAt || sunsetAt) {
+          scope.addHook('onRequest', async (request, reply) => {
+            if (deprecatedAt) reply.header('deprecation', deprecationHeader(deprecatedAt));
+            if (sunsetAt) reply.header('sunset', sunsetAt.toUTCString());
+            if (successor) reply.header('link', `<${apiPrefix(successor)}>; rel="successor-version"`);
+          });
+        }
+
+        await scope.register(apiVersion.routes);
+      },
+      { prefix: apiPrefix(version) },
+    );
+
+    if (docsPrefix !== undefined) {
+      let document: OpenAPIV3_1.Document | undefined;
+
+      app.get(`${docsPrefix}/${version}/json`, { schema: { hide: true } }, async () => {
+        // The spec is complete once the app is ready, so build it on first use
+        document ??= versionDocument(app.swagger() as OpenAPIV3_1.Document, apiVersion);
+        return document;
+      });
+    }
+  }
+};
+
+export default fp(apiVersionsPlugin, { name: 'api-versions' });
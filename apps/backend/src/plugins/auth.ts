@@ -0,0 +1,91 @@
+import fastifyJwt from '@fastify/jwt';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import fp from 'fastify-plugin';
+import { UnauthorizedError } from '../lib/errors.js';
+
+export interface AuthPluginOptions {
+  secret: string;
+  expiresIn: string;
+}
+
+// Claims carried in every access token
+export interface AccessTokenPayload {
+  sub: string;
+  email: string;
+  // Informational only - permissions are resolved from the database per request
+  role: string;
+}
+
+// Current user attached to authenticated requests
+export interface AuthUser {
+  id: string;
+  email: string;
+  role: string;
+}
+
+declare module '@fastify/jwt' {
+  interface FastifyJWT {
+    payload: AccessTokenPayload;
+    user: AuthUser;
+  }
+}
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    authenticate: (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
+    authenticateOptional: (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
+    issueAccessToken: (user: AuthUser) => Promise<{ accessToken: string; expiresIn: string }>;
+  }
+}
+
+/**
+ * JWT authentication plugin
+ *
+ * Registers @fastify/jwt and exposes:
+ * - `app.authenticate`: onRequest hook that verifies the bearer token and sets `request.user`
+ * - `app.authenticateOptional`: same, but anonymous requests (no Authorization header) pass through
+ * - `app.issueAccessToken`: signs an access token for a user
+ */
+export default fp<AuthPluginOptions>(
+  async (app, options) => {
+    await app.register(fastifyJwt, {
+      secret: options.secret,
+      sign: {
+        expiresIn: options.expiresIn,
+      },
+      formatUser: (payload) => ({
+        id: payload.sub,
+        email: payload.email,
+        role: payload.role,
+      }),
+    });
+
+    app.decorate('authenticate', async (request: FastifyRequest, _reply: FastifyReply) => {
+      try {
+        await request.jwtVerify();
+      } catch (error) {
+        if ((error as { code?: unknown })?.code === 'FST_JWT_AUTHORIZATION_TOKEN_EXPIRED') {
+          throw new UnauthorizedError('Access token has expired', 'TOKEN_EXPIRED');
+        }
+        throw new UnauthorizedError();
+      }
+    });
+
+    app.decorate('authenticateOptional', async (request: FastifyRequest, reply: FastifyReply) => {
+      if (!request.headers.authorization) return;
+
+      return app.authenticate(request, reply);
+    });
+
+    app.decorate('issueAccessToken', async (user: AuthUser) => {
+      const accessToken = await app.jwt.sign({
+        sub: user.id,
+        email: user.email,
+        role: user.role,
+      });
+
+      return { accessToken, expiresIn: options.expiresIn };
+    });
+  },
+  { name: 'auth' },
+);
@@ -0,0 +1,87 @@
+import type { Database, Permission } from '@app/db';
+import type { FastifyRequest, preHandlerHookHandler } from 'fastify';
+import fp from 'fastify-plugin';
+import { ForbiddenError } from '../lib/errors.js';
+import { getUserPermissions } from '../lib/permissions.js';
+
+export interface AuthorizationPluginOptions {
+  // Where role permissions are read from
+  db: Database;
+}
+
+declare module 'fastify' {
+  interface FastifySchema {
+    /**
+     * Permissions the caller must hold (all of them). Also emitted as an OpenAPI extension.
+     */
+    'x-permissions'?: readonly Permission[];
+    /**
+     * Also allow the user whose ID is in the `:id` path param, whatever their permissions
+     */
+    'x-allow-self'?: boolean;
+  }
+
+  interface FastifyRequest {
+    /**
+     * Whether the authenticated user holds a permission (resolved once per request)
+     */
+    hasPermission: (permission: Permission) => Promise<boolean>;
+    /**
+     * All permissions of the authenticated user (resolved once per request)
+     */
+    getPermissions: () => Promise<Set<Permission>>;
+  }
+}
+
+/**
+ * Permission-based authorization plugin
+ *
+ * Adds `request.hasPermission()` for checks inside handlers, and reads
+ * `x-permissions` / `x-allow-self` from each route schema to add a preHandler
+ * enforcing them, so requirements are declared next to the route's OpenAPI docs.
+ * Routes must authenticate first (`onRequest: app.authenticate`).
+ */
+export default fp<AuthorizationPluginOptions>(
+  async (app, { db }) => {
+    const resolved = new WeakMap<FastifyRequest, Promise<Set<Permission>>>();
+
+    app.decorateRequest('getPermissions', function (this: FastifyRequest) {
+      let permissions = resolved.get(this);
+      if (!permissions) {
+        // Anonymous requests hold no permissions
+        permissions = this.user
+          ? getUserPermissions(db, this.user.id).then((keys) => new Set(keys))
+          : Promise.resolve(new Set<Permission>());
+        resolved.set(this, permissions);
+      }
+      return permissions;
+    });
+
+    app.decorateRequest('hasPermission', async function (this: FastifyRequest, permission: Permission) {
+      return (await this.getPermissions()).has(permission);
+    });
+
+    app.addHook('onRoute', (routeOptions) => {
+      const required = routeOptions.schema?.['x-permissions'];
+      if (!required) return;
+
+      const allowSelf = routeOptions.schema?.['x-allow-self'] === true;
+
+      const requirePermissions: preHandlerHookHandler = async (request: FastifyRequest) => {
+        const { id } = (request.params ?? {}) as { id?: string };
+        if (allowSelf && id !== undefined && id === request.user.id) return;
+
+        const granted = await request.getPermissions();
+        if (required.every((permission) => granted.has(permission))) return;
+
+        throw new ForbiddenError();
+      };
+
+      const existing = routeOptions.preHandler;
+      routeOptions.preHandler = existing
+        ? [requirePermissions, ...(Array.isArray(existing) ? existing : [existing])]
+        : requirePermissions;
+    });
+  },
+  { name: 'authorization', dependencies: ['auth'] },
+);
@@ -0,0 +1,41 @@
+import fp from 'fastify-plugin';
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    /**
+     * Make `app.close()` (and so graceful shutdown) wait for work that
+     * outlives the request that started it. Returns the task unchanged.
+     */
+    trackBackgroundTask: <T>(task: Promise<T>) => Promise<T>;
+  }
+}
+
+/**
+ * Background tasks plugin
+ *
+ * Decorates `app.trackBackgroundTask()`. Tracked tasks are awaited in an
+ * onClose hook, after in-flight requests have finished, so closing the app
+ * never cuts off work such as a fire-and-forget cleanup query.
+ */
+export default fp(
+  async (app) => {
+    const tasks = new Set<Promise<unknown>>();
+
+    app.decorate('trackBackgroundTask', <T>(task: Promise<T>): Promise<T> => {
+      tasks.add(task);
+      // Errors stay with the caller; only completion matters here
+      task.then(
+        () => tasks.delete(task),
+        () => tasks.delete(task),
+      );
+      return task;
+    });
+
+    app.addHook('onClose', async () => {
+      if (tasks.size === 0) return;
+      app.log.info(`Waiting for ${tasks.size} background task(s)`);
+      await Promise.allSettled(tasks);
+    });
+  },
+  { name: 'background-tasks' },
+);
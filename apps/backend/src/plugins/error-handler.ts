@@ -0,0 +1,170 @@
+import type { FastifyError } from 'fastify';
+import fp from 'fastify-plugin';
+import { HttpError, toErrorBody, type ErrorBody, type ErrorCode, type FieldError } from '../lib/errors.js';
+
+// Fields of a node-postgres DatabaseError that the mapping below relies on
+interface PostgresError {
+  code: string;
+  severity: string;
+  detail?: string;
+  column?: string;
+}
+
+// Socket-level failures reaching the database
+const CONNECTION_ERROR_CODES = new Set(['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'ETIMEDOUT', 'EHOSTUNREACH']);
+
+const isPostgresError = (error: unknown): error is PostgresError =>
+  typeof error === 'object' &&
+  error !== null &&
+  typeof (error as PostgresError).code === 'string' &&
+  typeof (error as PostgresError).severity === 'string';
+
+// Drizzle may surface the driver error directly or as the cause of its own
+const findPostgresError = (error: unknown): PostgresError | undefined => {
+  if (isPostgresError(error)) return error;
+  if (error instanceof Error && isPostgresError(error.cause)) return error.cause;
+  return undefined;
+};
+
+const isConnectionError = (error: unknown): boolean => {
+  const code = (error as { code?: unknown })?.code;
+  if (typeof code === 'string' && CONNECTION_ERROR_CODES.has(code)) return true;
+  // pg.Pool rejects with a plain Error when no connection frees up in time
+  return error instanceof Error && /timeout exceeded when trying to connect/i.test(error.message);
+};
+
+// "Key (email)=(john@example.com) already exists." -> "email"
+const columnFromDetail = (detail?: string) => detail?.match(/^Key \(([^)]+)\)=/)?.[1];
+
+// Report snake_case columns under the camelCase names the API uses
+const toFieldName = (column: string) => column.replace(/_([a-z])/g, (_, char: string) => char.toUpperCase());
+
+const toLabel = (field: string) => field.charAt(0).toUpperCase() + field.slice(1);
+
+/**
+ * Map a Postgres error to a response, or undefined if it is not a client error
+ */
+const fromPostgresError = (error: PostgresError): [number, ErrorBody] | undefined => {
+  const column = columnFromDetail(error.detail) ?? error.column;
+  const field = column ? toFieldName(column) : undefined;
+  const fieldErrors = (message: string, code: string): FieldError[] | undefined =>
+    field ? [{ field, message, code }] : undefined;
+
+  switch (error.code) {
+    // unique_violation
+    case '23505': {
+      const message = field ? `${toLabel(field)} already exists` : 'Resource already exists';
+      return [409, toErrorBody(409, 'ALREADY_EXISTS', message, fieldErrors(message, 'unique'))];
+    }
+    // foreign_key_violation: a missing referenced row on insert/update, or
+    // rows still referencing the one being deleted
+    case '23503': {
+      if (error.detail?.includes('is still referenced')) {
+        const message = 'Resource is still referenced by other records';
+        return [409, toErrorBody(409, 'CONFLICT', message)];
+      }
+      const message = field ? `${toLabel(field)} does not exist` : 'Referenced resource does not exist';
+      return [400, toErrorBody(400, 'VALIDATION_ERROR', message, fieldErrors(message, 'foreign_key'))];
+    }
+    // not_null_violation
+    case '23502': {
+      const message = field ? `${toLabel(field)} is required` : 'A required field is missing';
+      return [400, toErrorBody(400, 'VALIDATION_ERROR', message, fieldErrors(message, 'required'))];
+    }
+    // check_violation, string_data_right_truncation, invalid datetime/text representation
+    case '23514':
+    case '22001':
+    case '22007':
+    case '22008':
+    case '22P02':
+      return [400, toErrorBody(400, 'INVALID_INPUT', 'Invalid input')];
+  }
+
+  // connection_exception (08xxx), admin/crash shutdown, too_many_connections
+  if (error.code.startsWith('08') || ['57P01', '57P02', '57P03', '53300'].includes(error.code)) {
+    return [503, toErrorBody(503, 'SERVICE_UNAVAILABLE', 'The database is unavailable')];
+  }
+
+  return undefined;
+};
+
+const codeForStatus = (statusCode: number): ErrorCode => {
+  switch (statusCode) {
+    case 401:
+      return 'UNAUTHORIZED';
+    case 403:
+      return 'FORBIDDEN';
+    case 404:
+      return 'NOT_FOUND';
+    case 409:
+      return 'CONFLICT';
+    default:
+      return 'INVALID_INPUT';
+  }
+};
+
+/**
+ * Central error handler plugin
+ *
+ * Every error response shares one envelope: `{ error, code, message, errors?, requestId }`
+ * where `errors` lists field-level problems. Handles, in order:
+ * - `HttpError`s thrown by handlers and hooks
+ * - request validation failures (400, one entry per Zod issue)
+ * - Postgres constraint violations (409 duplicates, 400 bad references) and outages (503)
+ * - other Fastify client errors such as malformed JSON (their own 4xx status)
+ * - anything else (500, details logged but not sent to the client)
+ */
+export default fp(
+  async (app) => {
+    app.setErrorHandler((error: FastifyError, request, reply) => {
+      // Quote the request ID so a user report can be matched to the logs
+      const send = (statusCode: number, body: ErrorBody) =>
+        reply.code(statusCode).send({ ...body, requestId: request.id });
+
+      if (error instanceof HttpError) {
+        return send(error.statusCode, error.toBody());
+      }
+
+      if (error.validation) {
+        const errors: FieldError[] = error.validation.map((issue) => ({
+          // "/address/street" -> "address.street"; issues on the whole body use its context
+          field: issue.instancePath.slice(1).replaceAll('/', '.') || error.validationContext || 'request',
+          message: issue.message ?? 'Invalid value',
+          code: issue.keyword,
+        }));
+        return send(400, toErrorBody(400, 'VALIDATION_ERROR', 'Validation failed', errors));
+      }
+
+      const postgresError = findPostgresError(error);
+      const mapped = postgresError && fromPostgresError(postgresError);
+      if (mapped) {
+        const [statusCode, body] = mapped;
+        if (statusCode >= 500) request.log.error({ err: error }, 'Database error');
+        return send(statusCode, body);
+      }
+
+      if (isConnectionError(error)) {
+        request.log.error({ err: error }, 'Database connection error');
+        return send(503, toErrorBody(503, 'SERVICE_UNAVAILABLE', 'The database is unavailable'));
+      }
+
+      // Fastify's own client errors (malformed JSON, unsupported media type, body too large...)
+      if (error.statusCode && error.statusCode >= 400 && error.statusCode < 500) {
+        return send(error.statusCode, toErrorBody(error.statusCode, codeForStatus(error.statusCode), error.message));
+      }
+
+      // Never leak internals of unexpected failures
+      request.log.error({ err: error }, 'Unhandled error');
+      return send(500, toErrorBody(500, 'INTERNAL_SERVER_ERROR', 'An unexpected error occurred'));
+    });
+
+    // Unknown routes get the same envelope
+    app.setNotFoundHandler((request, reply) => {
+      reply.code(404).send({
+        ...toErrorBody(404, 'NOT_FOUND', `Route ${request.method} ${request.url} not found`),
+        requestId: request.id,
+      });
+    });
+  },
+  { name: 'error-handler' },
+);
@@ -0,0 +1,197 @@
+import { getMigrationStatus, sql, type Database, type Queryable, type pool as defaultPool } from '@app/db';
+import type { FastifyZodOpenApiSchema, FastifyZodOpenApiTypeProvider } from 'fastify-zod-openapi';
+import fp from 'fastify-plugin';
+import { z } from 'zod';
+
+export interface HealthPluginOptions {
+  db: Database;
+  // Connection pool behind `db`, for the pool check; omit for drivers without one (e.g. PGlite)
+  pool?: typeof defaultPool;
+  // How long the database probe may take before the check counts as failed
+  checkTimeoutMs: number;
+}
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    /**
+     * Fail readiness from now on, so the orchestrator stops routing traffic
+     * here while in-flight requests drain
+     */
+    markShuttingDown: () => void;
+  }
+}
+
+const DatabaseCheckSchema = z.object({
+  status: z.enum(['up', 'down']),
+  latencyMs: z.number().meta({ description: 'Round trip of the probe query' }),
+  error: z.string().optional(),
+});
+
+const MigrationsCheckSchema = z.object({
+  status: z.enum(['up-to-date', 'pending', 'unknown', 'error']).meta({
+    description: '"unknown" when there is no local migration journal (schema managed with db:push)',
+  }),
+  applied: z.number().nullable(),
+  available: z.number().nullable(),
+  pending: z.number().nullable(),
+});
+
+const PoolCheckSchema = z.object({
+  status: z.enum(['ok', 'saturated']).meta({
+    description: '"saturated" when every connection is busy and requests are queueing',
+  }),
+  total: z.number().meta({ description: 'Open connections' }),
+  idle: z.number().meta({ description: 'Open connections not in use' }),
+  waiting: z.number().meta({ description: 'Queries queued for a connection' }),
+  max: z.number().meta({ description: 'Pool size limit' }),
+  utilization: z.number().meta({ description: 'Share of the pool in use, 0 to 1' }),
+});
+
+const ReadinessResponseSchema = z.object({
+  status: z.enum(['ready', 'not_ready', 'shutting_down']),
+  checks: z.object({
+    database: DatabaseCheckSchema,
+    migrations: MigrationsCheckSchema,
+    pool: PoolCheckSchema.optional().meta({ description: 'Omitted when the database driver has no connection pool' }),
+  }),
+}).meta({ id: 'ReadinessResponse' });
+
+const LivenessResponseSchema = z.object({
+  status: z.literal('ok'),
+  uptimeSeconds: z.number(),
+});
+
+const withTimeout = <T>(promise: Promise<T>, ms: number, label: string): Promise<T> => {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${label} timed out after ${ms}ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
+
+/**
+ * Health check plugin
+ *
+ * - `GET /health/live`: the process is up and serving requests; never touches dependencies
+ * - `GET /health/ready`: 200 when the database answers within the timeout and no
+ *   migrations are pending, 503 otherwise or once shutdown has begun. Pool
+ *   saturation is reported but does not fail readiness.
+ *
+ * Probe routes only log at `warn`, so successful checks don't flood the logs.
+ */
+export default fp<HealthPluginOptions>(
+  async (app, { db, pool, checkTimeoutMs }) => {
+    let shuttingDown = false;
+
+    // Raw queries through Drizzle, so the checks work with any driver
+    const client: Queryable = {
+      query: async (text) => (await db.execute(sql.raw(text))) as unknown as { rows: unknown[] },
+    };
+
+    app.decorate('markShuttingDown', () => {
+      shuttingDown = true;
+    });
+
+    // Covers shutdowns that skip markShuttingDown() and call app.close() directly
+    app.addHook('preClose', async () => {
+      shuttingDown = true;
+    });
+
+    const checkDatabase = async (): Promise<z.infer<typeof DatabaseCheckSchema>> => {
+      const startedAt = performance.now();
+      try {
+        await withTimeout(client.query('SELECT 1'), checkTimeoutMs, 'Database check');
+        return { status: 'up', latencyMs: Math.round(performance.now() - startedAt) };
+      } catch (error) {
+        return {
+          status: 'down',
+          latencyMs: Math.round(performance.now() - startedAt),
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    };
+
+    const checkMigrations = async (): Promise<z.infer<typeof MigrationsCheckSchema>> => {
+      try {
+        return await withTimeout(getMigrationStatus(client), checkTimeoutMs, 'Migration check');
+      } catch {
+        return { status: 'error', applied: null, available: null, pending: null };
+      }
+    };
+
+    const checkPool = (): z.infer<typeof PoolCheckSchema> | undefined => {
+      if (!pool) return undefined;
+      const max = pool.options.max ?? 10;
+      const inUse = pool.totalCount - pool.idleCount;
+      return {
+        status: pool.waitingCount > 0 && inUse >= max ? 'saturated' : 'ok',
+        total: pool.totalCount,
+        idle: pool.idleCount,
+        waiting: pool.waitingCount,
+        max,
+        utilization: Math.round((inUse / max) * 100) / 100,
+      };
+    };
+
+    app.withTypeProvider<FastifyZodOpenApiTypeProvider>().route({
+      method: 'GET',
+      url: '/health/live',
+      logLevel: 'warn',
+      schema: {
+        description: 'Liveness probe - the process is running',
+        tags: ['health'],
+        response: {
+          200: {
+            description: 'Process is alive',
+            content: {
+              'application/json': {
+                schema: LivenessResponseSchema,
+              },
+            },
+          },
+        },
+      } satisfies FastifyZodOpenApiSchema,
+      handler: async (_request, reply) => {
+        reply.send({ status: 'ok', uptimeSeconds: Math.round(process.uptime()) });
+      },
+    });
+
+    app.withTypeProvider<FastifyZodOpenApiTypeProvider>().route({
+      method: 'GET',
+      url: '/health/ready',
+      logLevel: 'warn',
+      schema: {
+        description: 'Readiness probe - the database is reachable and migrated, and the server is not shutting down',
+        tags: ['health'],
+        response: {
+          200: {
+            description: 'Ready to receive traffic',
+            content: {
+              'application/json': {
+                schema: ReadinessResponseSchema,
+              },
+            },
+          },
+          503: {
+            description: 'Not ready - a dependency check failed or shutdown has begun',
+            content: {
+              'application/json': {
+                schema: ReadinessResponseSchema,
+              },
+            },
+          },
+        },
+      } satisfies FastifyZodOpenApiSchema,
+      handler: async (_request, reply) => {
+        const [database, migrations] = await Promise.all([checkDatabase(), checkMigrations()]);
+        const checks = { database, migrations, pool: checkPool() };
+
+        const healthy = database.status === 'up' && migrations.status !== 'pending' && migrations.status !== 'error';
+        const status = shuttingDown ? 'shutting_down' : healthy ? 'ready' : 'not_ready';
+
+        reply.code(status === 'ready' ? 200 : 503).send({ status, checks });
+      },
+    });
+  },
+  { name: 'health' },
+);
@@ -0,0 +1,158 @@
+import { createHash } from 'node:crypto';
+import type { Database } from '@app/db';
+import type { FastifyRequest, onSendHookHandler, preHandlerHookHandler } from 'fastify';
+import fp from 'fastify-plugin';
+import { ConflictError, HttpError } from '../lib/errors.js';
+import {
+  claimIdempotencyKey,
+  deleteExpiredIdempotencyKeys,
+  releaseIdempotencyKey,
+  saveIdempotentResponse,
+} from '../lib/idempotency-keys.js';
+
+export interface IdempotencyPluginOptions {
+  db: Database;
+  // How long a key and its response are kept
+  ttlMs: number;
+  // How long a request may hold a key before a retry can take it over
+  lockTimeoutMs: number;
+}
+
+declare module 'fastify' {
+  interface FastifySchema {
+    /**
+     * Honour the Idempotency-Key header: repeats of the request get the first response back
+     */
+    'x-idempotent'?: boolean;
+  }
+}
+
+export const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+
+// Set on responses sent from storage rather than by the handler
+export const IDEMPOTENT_REPLAYED_HEADER = 'idempotent-replayed';
+
+// Expired keys are deleted at most this often, piggybacking on requests that claim a key
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+const toList = <T>(value: T | T[] | undefined): T[] => (value === undefined ? [] : Array.isArray(value) ? value : [value]);
+
+/**
+ * Idempotency-Key plugin
+ *
+ * Routes with `x-idempotent: true` in their schema accept an `Idempotency-Key`
+ * header. The first request with a key runs normally and its response is
+ * stored in Postgres per key and user; retries within the retention period
+ * get that response back (with `Idempotent-Replayed: true`) instead of running
+ * again. Reusing a key for a different request is a 422, and retrying while
+ * the first request is still running a 409 (for at most `lockTimeoutMs`, after
+ * which the key is considered abandoned). Server errors (5xx) are not
+ * stored, so a failed request can be retried with the same key.
+ *
+ * Must be registered after the authorization plugin so permission checks run first.
+ */
+export default fp<IdempotencyPluginOptions>(
+  async (app, { db, ttlMs, lockTimeoutMs }) => {
+    // Key claimed by each request that is running for the first time
+    const claims = new WeakMap<FastifyRequest, string>();
+    let lastPurge = 0;
+
+    const purgeExpired = (request: FastifyRequest) => {
+      if (Date.now() - lastPurge < PURGE_INTERVAL_MS) return;
+      lastPurge = Date.now();
+      // Not awaited by the request, but shutdown waits for it
+      app
+        .trackBackgroundTask(deleteExpiredIdempotencyKeys(db))
+        .catch((error) => request.log.error({ err: error }, 'Deleting expired idempotency keys failed'));
+    };
+
+    const replayOrClaim: preHandlerHookHandler = async (request, reply) => {
+      const key = request.headers[IDEMPOTENCY_KEY_HEADER];
+      if (typeof key !== 'string') return;
+
+      purgeExpired(request);
+
+      // The URL covers the path params and query, the validated body everything else
+      const fingerprint = createHash('sha256')
+        .update(`${request.method} ${request.url}\n${JSON.stringify(request.body ?? null)}`)
+        .digest('hex');
+
+      const result = await claimIdempotencyKey(db, {
+        key,
+        userId: request.user?.id,
+        fingerprint,
+        ttlMs,
+        lockTimeoutMs,
+      });
+
+      switch (result.status) {
+        case 'claimed':
+          claims.set(request, result.id);
+          return;
+        case 'mismatch':
+          throw new HttpError(
+            422,
+            'IDEMPOTENCY_KEY_REUSED',
+            'This Idempotency-Key was already used for a different request',
+          );
+        case 'in-progress':
+          throw new ConflictError(
+            'A request with this Idempotency-Key is still being processed',
+            undefined,
+            'IDEMPOTENCY_KEY_IN_USE',
+          );
+        case 'completed': {
+          const { statusCode, contentType, body } = result.response;
+          reply.code(statusCode).header(IDEMPOTENT_REPLAYED_HEADER, 'true');
+          if (contentType) reply.type(contentType);
+          return reply.send(body ?? undefined);
+        }
+      }
+    };
+
+    const storeResponse: onSendHookHandler = async (request, reply, payload) => {
+      const id = claims.get(request);
+      if (id === undefined) return payload;
+      claims.delete(request);
+
+      const body = typeof payload === 'string' ? payload : Buffer.isBuffer(payload) ? payload.toString() : null;
+
+      try {
+        // Only complete bodies can be replayed; streams are left to run again
+        if (reply.statusCode >= 500 || (payload != null && body === null)) {
+          await releaseIdempotencyKey(db, id);
+        } else {
+          const contentType = reply.getHeader('content-type');
+          await saveIdempotentResponse(db, id, {
+            statusCode: reply.statusCode,
+            contentType: typeof contentType === 'string' ? contentType : null,
+            body,
+          });
+        }
+      } catch (error) {
+        // The response itself succeeded; a retry will just run the request again
+        request.log.error({ err: error }, 'Storing the idempotent response failed');
+        await releaseIdempotencyKey(db, id).catch(() => {});
+      }
+
+      return payload;
+    };
+
+    app.addHook('onRoute', (routeOptions) => {
+      if (routeOptions.schema?.['x-idempotent'] !== true) return;
+
+      // After the permission checks, so a forbidden request does not use up its key
+      routeOptions.preHandler = [...toList(routeOptions.preHandler), replayOrClaim];
+      routeOptions.onSend = [...toList(routeOptions.onSend), storeResponse];
+
+      // storeResponse is asynchronous, so a handler that calls reply.send()
+      // without returning the reply would let Fastify send a second response
+      const { handler } = routeOptions;
+      routeOptions.handler = async function (request, reply) {
+        const payload = await handler.call(this, request, reply);
+        return payload === undefined ? reply : payload;
+      };
+    });
+  },
+  { name: 'idempotency', dependencies: ['auth', 'authorization', 'background-tasks'] },
+);
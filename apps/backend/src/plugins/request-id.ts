@@ -0,0 +1,39 @@
+import { randomUUID } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import fp from 'fastify-plugin';
+
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+// Clients may send either header; the frontend sends X-Correlation-ID
+const INCOMING_HEADERS = [REQUEST_ID_HEADER, 'x-correlation-id'] as const;
+
+// Caller-supplied IDs end up in logs and headers, so only accept plain tokens
+const VALID_REQUEST_ID = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Fastify `genReqId`: reuse a well-formed ID sent by the caller so their logs
+ * and ours share it, otherwise generate one
+ */
+export const genReqId = (request: IncomingMessage): string => {
+  for (const header of INCOMING_HEADERS) {
+    const value = request.headers[header];
+    if (typeof value === 'string' && VALID_REQUEST_ID.test(value)) return value;
+  }
+  return randomUUID();
+};
+
+/**
+ * Request ID plugin
+ *
+ * Echoes `request.id` in the `X-Request-ID` response header so clients can
+ * quote it when reporting a problem. Pair with `genReqId` above in the Fastify
+ * options, which also puts the ID on every request log line.
+ */
+export default fp(
+  async (app) => {
+    app.addHook('onRequest', async (request, reply) => {
+      reply.header(REQUEST_ID_HEADER, request.id);
+    });
+  },
+  { name: 'request-id' },
+);
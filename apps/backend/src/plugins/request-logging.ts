@@ -0,0 +1,37 @@
+import fp from 'fastify-plugin';
+
+/**
+ * Request logging plugin
+ *
+ * Replaces Fastify's built-in request logs (create the app with
+ * `disableRequestLogging: true`) with one summary line per response: method,
+ * URL, matched route, status and latency. Lines go through `request.log`, the
+ * per-request child logger, so they carry the request ID. Server errors log at
+ * `error`, client errors at `warn`, the rest at `info`.
+ */
+export default fp(
+  async (app) => {
+    app.addHook('onRequest', async (request) => {
+      request.log.debug({ method: request.method, url: request.url }, `--> ${request.method} ${request.url}`);
+    });
+
+    app.addHook('onResponse', async (request, reply) => {
+      const { statusCode } = reply;
+      const durationMs = Math.round(reply.elapsedTime * 10) / 10;
+      const level = statusCode >= 500 ? 'error' : statusCode >= 400 ? 'warn' : 'info';
+
+      request.log[level](
+        {
+          method: request.method,
+          url: request.url,
+          route: request.routeOptions.url,
+          statusCode,
+          durationMs,
+          userId: request.user?.id,
+        },
+        `<-- ${request.method} ${request.url} ${statusCode} ${durationMs}ms`,
+      );
+    });
+  },
+  { name: 'request-logging' },
+);
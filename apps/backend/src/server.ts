@@ -0,0 +1,45 @@
+import 'dotenv/config';
+import { db, pool } from '@app/db';
+import { createLogger } from '@app/logger';
+import { buildApp } from './app.js';
+import { ConfigError, loadConfig, type Config } from './config.js';
+import { createShutdownCoordinator } from './lib/shutdown.js';
+
+// Validate the environment before anything starts; a bad value stops the process
+let config: Config;
+try {
+  config = loadConfig();
+} catch (err) {
+  if (!(err instanceof ConfigError)) throw err;
+  console.error(err.message);
+  process.exit(1);
+}
+
+// Shared logger; Fastify derives a child logger per request from it
+const logger = createLogger({ prefix: 'api', level: config.log.level });
+
+async function main() {
+  const app = await buildApp({ db, pool, logger, config });
+
+  // Drains requests and background work, then closes the pool, on SIGINT/SIGTERM
+  const shutdown = createShutdownCoordinator({ app, pool, logger, timeoutMs: config.shutdown.timeoutMs });
+
+  // Start the server
+  try {
+    const { host, port, publicUrl } = config.server;
+    await app.listen({ port, host });
+    logger.success(`Server listening on ${host}:${port}, public URL ${publicUrl}`);
+    if (config.docs.enabled) {
+      logger.info(`Swagger UI available at ${publicUrl}${config.docs.routePrefix}`);
+      logger.info(`OpenAPI JSON available at ${publicUrl}${config.docs.routePrefix}/json`);
+    }
+  } catch (err) {
+    logger.error(err as Error);
+    await shutdown.shutdown('failed to start');
+    process.exit(1);
+  }
+
+  shutdown.handleSignals(['SIGINT', 'SIGTERM']);
+}
+
+main();
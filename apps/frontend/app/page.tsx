@@ -1,14 +1,21 @@
 'use client';
 
 import { useState } from 'react';
-import { useGetUsers, usePostUsers } from '@/lib/api/users/users';
+import { useGetUsers, usePostUsers } from '@/lib/api/generated/hooks/users/users';
+import { userInsertSchema, validate } from '@/lib/api/schemas';
+
+type UserFormField = 'name' | 'email' | 'address';
 
 export default function Home() {
   const [name, setName] = useState('');
   const [email, setEmail] = useState('');
+  const [address, setAddress] = useState('');
+  // Messages from the shared user contract, the same rules the API applies
+  const [fieldErrors, setFieldErrors] = useState<Partial<Record<UserFormField, string>>>({});
 
   // Auto-generated React Query hook for GET /users
-  const { data: users, isLoading, error, refetch } = useGetUsers();
+  const { data: page, isLoading, error, refetch } = useGetUsers();
+  const users = page?.data;
 
   // Auto-generated React Query mutation hook for POST /users
   const createUserMutation = usePostUsers({
@@ -17,6 +24,7 @@ export default function Home() {
         // Clear form
         setName('');
         setEmail('');
+        setAddress('');
         // Refetch users list
         refetch();
       },
@@ -29,13 +37,15 @@ export default function Home() {
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
-    // Type-safe API call - TypeScript knows the exact shape of the data
-    createUserMutation.mutate({
-      data: {
-        name,
-        email,
-      },
-    });
+    // Validate against the contract before sending
+    const result = validate(userInsertSchema, { name, email, address });
+    if (!result.success || !result.data) {
+      setFieldErrors(Object.fromEntries((result.issues ?? []).map((issue) => [issue.path, issue.message])));
+      return;
+    }
+
+    setFieldErrors({});
+    createUserMutation.mutate({ data: result.data });
   };
 
   return (
@@ -73,6 +83,9 @@ export default function Home() {
                 required
                 disabled={createUserMutation.isPending}
               />
+              {fieldErrors.name && (
+                <p className="mt-1 text-sm text-red-600 dark:text-red-400">{fieldErrors.name}</p>
+              )}
             </div>
             <div>
               <label
@@ -91,6 +104,30 @@ export default function Home() {
                 required
                 disabled={createUserMutation.isPending}
               />
+              {fieldErrors.email && (
+                <p className="mt-1 text-sm text-red-600 dark:text-red-400">{fieldErrors.email}</p>
+              )}
+            </div>
+            <div>
+              <label
+                htmlFor="address"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+              >
+                Address
+              </label>
+              <input
+                type="text"
+                id="address"
+                value={address}
+                onChange={(e) => setAddress(e.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+                placeholder="123 Main St"
+                required
+                disabled={createUserMutation.isPending}
+              />
+              {fieldErrors.address && (
+                <p className="mt-1 text-sm text-red-600 dark:text-red-400">{fieldErrors.address}</p>
+              )}
             </div>
             <button
               type="submit"
@@ -1,4 +1,4 @@
-import axios, { type AxiosError, type AxiosRequestConfig } from "axios";
+import axios, { type AxiosError, type AxiosRequestConfig, type InternalAxiosRequestConfig } from "axios";
 import { useProfileStore } from "@/store";
 
 /**
@@ -143,6 +143,12 @@ function stripApiSuffix(url?: string): string {
 
 const resolvedBaseUrl = stripApiSuffix(import.meta.env.VITE_API_URL);
 
+/**
+ * Version prefix of the backend routes. Generated paths include it; keep
+ * hand-written URLs in step when regenerating against a new version.
+ */
+export const API_PREFIX = "/api/v1";
+
 /**
  * Base Axios instance with default configuration
  */
@@ -156,7 +162,23 @@ export const AXIOS_INSTANCE = axios.create({
 });
 
 /**
- * Request interceptor - automatically includes authentication token
+ * Header carrying the per-request correlation ID. The backend adopts it as its
+ * request ID, so it appears in server logs and comes back as X-Request-ID.
+ */
+export const CORRELATION_ID_HEADER = "X-Correlation-ID";
+
+/**
+ * Generate a correlation ID (falls back to Math.random outside secure contexts)
+ */
+function createCorrelationId(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
+
+/**
+ * Request interceptor - automatically includes authentication token and correlation ID
  */
 AXIOS_INSTANCE.interceptors.request.use(
   (config) => {
@@ -164,6 +186,10 @@ AXIOS_INSTANCE.interceptors.request.use(
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
+    // Keep the ID when a request is replayed after a token refresh
+    if (!config.headers[CORRELATION_ID_HEADER]) {
+      config.headers[CORRELATION_ID_HEADER] = createCorrelationId();
+    }
     return config;
   },
   (error) => {
@@ -172,26 +198,105 @@ AXIOS_INSTANCE.interceptors.request.use(
 );
 
 /**
- * Response interceptor - handles authentication errors and token refresh
+ * Auth endpoints whose 401s mean "bad credentials", never "expired access token"
+ */
+const NO_REFRESH_URLS = new Set([
+  `${API_PREFIX}/auth/login`,
+  `${API_PREFIX}/auth/refresh`,
+  `${API_PREFIX}/auth/logout`,
+]);
+
+type RetriableRequestConfig = InternalAxiosRequestConfig & { _retry?: boolean };
+
+/**
+ * In-flight refresh shared by every request that fails with 401.
+ * Concurrent failures wait on this single promise instead of each rotating
+ * the refresh token (which the backend would treat as token reuse).
+ */
+let refreshPromise: Promise<string> | null = null;
+
+/**
+ * Clear the stored session
+ */
+function clearSession() {
+  const { setToken, setRefreshToken, setProfile } = useProfileStore.getState();
+  setToken("");
+  setRefreshToken("");
+  setProfile(null);
+}
+
+/**
+ * Exchange the stored refresh token for a new token pair.
+ * Uses plain axios so the call bypasses the interceptors below.
+ */
+async function refreshAccessToken(): Promise<string> {
+  const { refreshToken, setToken, setRefreshToken } = useProfileStore.getState();
+  if (!refreshToken) {
+    throw new Error("No refresh token available");
+  }
+
+  const { data } = await axios.post<{ accessToken: string; refreshToken: string }>(
+    `${API_PREFIX}/auth/refresh`,
+    { refreshToken },
+    {
+      baseURL: AXIOS_INSTANCE.defaults.baseURL,
+      timeout: AXIOS_INSTANCE.defaults.timeout,
+    },
+  );
+
+  setToken(data.accessToken);
+  setRefreshToken(data.refreshToken);
+  return data.accessToken;
+}
+
+/**
+ * Response interceptor - refreshes expired access tokens and replays requests
+ *
+ * On 401 the first failing request starts a refresh; requests failing while it
+ * runs queue on the same promise. Once it succeeds every queued request is
+ * replayed with the new token. The session is only cleared when the refresh
+ * itself is rejected - network errors or 5xx leave it intact.
  */
 AXIOS_INSTANCE.interceptors.response.use(
   (response) => response,
   async (error: AxiosError) => {
-    const originalRequest = error.config;
+    const originalRequest = error.config as RetriableRequestConfig | undefined;
     const responseStatus = error.response?.status;
 
-    // Handle 401 Unauthorized
-    if ((responseStatus === 401 || responseStatus === 403) && originalRequest) {
-      // Clear token and profile on auth failure
-      const { setToken, setProfile } = useProfileStore.getState();
-      setToken("");
-      setProfile(null);
+    if (
+      responseStatus !== 401 ||
+      !originalRequest ||
+      originalRequest._retry ||
+      NO_REFRESH_URLS.has(originalRequest.url ?? "")
+    ) {
+      return Promise.reject(error);
+    }
+
+    // Replay at most once, so a token rejected right after refresh cannot loop
+    originalRequest._retry = true;
+
+    refreshPromise ??= refreshAccessToken().finally(() => {
+      refreshPromise = null;
+    });
 
-      // Optionally redirect to sign-in (can be enabled based on requirements)
-      // window.location.href = '/auth/sign-in';
+    try {
+      await refreshPromise;
+    } catch (refreshError) {
+      const refreshStatus = axios.isAxiosError(refreshError) ? refreshError.response?.status : undefined;
+      const refreshRejected = !axios.isAxiosError(refreshError) || (refreshStatus !== undefined && refreshStatus < 500);
+
+      if (refreshRejected) {
+        clearSession();
+
+        // Optionally redirect to sign-in (can be enabled based on requirements)
+        // window.location.href = '/auth/sign-in';
+      }
+
+      return Promise.reject(error);
     }
 
-    return Promise.reject(error);
+    // The request interceptor attaches the refreshed token
+    return AXIOS_INSTANCE(originalRequest);
   },
 );
 
@@ -208,7 +313,7 @@ AXIOS_INSTANCE.interceptors.response.use(
  *
  * @example
  * // This is used internally by Orval-generated hooks
- * const data = await customInstance<User>({ url: '/users/1', method: 'GET' });
+ * const data = await customInstance<User>({ url: '/api/v1/users/1', method: 'GET' });
  */
 export const customInstance = <T>(config: AxiosRequestConfig, options?: AxiosRequestConfig): Promise<T> => {
   const source = axios.CancelToken.source();
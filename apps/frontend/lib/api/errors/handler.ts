@@ -8,13 +8,19 @@ import { getErrorCodeFromStatus, getErrorMessage, HTTP_STATUS_TO_ERROR_CODE } fr
 function extractValidationErrors(detail: unknown): ValidationError[] | undefined {
   if (!detail) return undefined;
 
-  // Handle FastAPI validation error format
   if (Array.isArray(detail)) {
-    return detail.map((err: { loc?: string[]; msg?: string; type?: string }) => ({
-      field: err.loc?.slice(1).join(".") || "unknown",
-      message: err.msg || "Validation error",
-      code: err.type,
-    }));
+    return detail.map(
+      (err: { field?: string; message?: string; code?: string; loc?: string[]; msg?: string; type?: string }) =>
+        // Backend envelope format { field, message, code }
+        err.field !== undefined
+          ? { field: err.field, message: err.message || "Validation error", code: err.code }
+          : // FastAPI validation error format { loc, msg, type }
+            {
+              field: err.loc?.slice(1).join(".") || "unknown",
+              message: err.msg || "Validation error",
+              code: err.type,
+            }
+    );
   }
 
   // Handle object format { field: message }
@@ -58,7 +64,13 @@ function extractErrorMessage(data: unknown): string {
  * Determine error code from error response
  */
 function determineErrorCode(status: number | undefined, data: unknown): ApiErrorCode {
-  // First check status code
+  // Prefer the code sent by the backend when it is one we know
+  const code = (data as ApiErrorResponse | undefined)?.code;
+  if (code && Object.values(ApiErrorCode).includes(code as ApiErrorCode)) {
+    return code as ApiErrorCode;
+  }
+
+  // Then check status code
   if (status && HTTP_STATUS_TO_ERROR_CODE[status]) {
     // Special case: 401 could be invalid credentials or token expired
     if (status === 401) {
@@ -110,10 +122,15 @@ export function handleApiError(error: unknown): ApiError {
       const { status, data } = response;
       const errorCode = determineErrorCode(status, data);
       const errorMessage = extractErrorMessage(data) || getErrorMessage(errorCode);
-      const validationErrors = extractValidationErrors((data as ApiErrorResponse)?.detail);
+      const errorData = data as ApiErrorResponse | undefined;
+      const validationErrors = extractValidationErrors(errorData?.errors ?? errorData?.detail);
 
-      // Extract request ID if available (common in production APIs)
-      const requestId = response.headers["x-request-id"] || response.headers["x-correlation-id"];
+      // Prefer the ID the server reports (header or error body), then the one we sent
+      const requestId =
+        response.headers["x-request-id"] ||
+        response.headers["x-correlation-id"] ||
+        (data as ApiErrorResponse | undefined)?.requestId ||
+        getSentCorrelationId(error);
 
       return new ApiError({
         message: errorMessage,
@@ -128,6 +145,9 @@ export function handleApiError(error: unknown): ApiError {
 
     // Request made but no response received (network error)
     if (request) {
+      // The server may still have logged the request under the ID we sent
+      const requestId = getSentCorrelationId(error);
+
       // Check for timeout
       if (error.code === "ECONNABORTED" || message.includes("timeout")) {
         return new ApiError({
@@ -135,6 +155,7 @@ export function handleApiError(error: unknown): ApiError {
           code: ApiErrorCode.TIMEOUT,
           statusCode: 0,
           originalError: error,
+          requestId,
         });
       }
 
@@ -143,6 +164,7 @@ export function handleApiError(error: unknown): ApiError {
         code: ApiErrorCode.NETWORK_ERROR,
         statusCode: 0,
         originalError: error,
+        requestId,
       });
     }
 
@@ -174,6 +196,14 @@ export function handleApiError(error: unknown): ApiError {
   });
 }
 
+/**
+ * Correlation ID the axios instance attached to the failed request
+ */
+function getSentCorrelationId(error: AxiosError<unknown>): string | undefined {
+  const value = error.config?.headers?.["X-Correlation-ID"];
+  return typeof value === "string" ? value : undefined;
+}
+
 /**
  * Type guard for Axios errors
  */
@@ -25,6 +25,9 @@ export const ERROR_MESSAGES: Record<ApiErrorCode, string> = {
   [ApiErrorCode.NOT_FOUND]: "The requested resource was not found.",
   [ApiErrorCode.CONFLICT]: "This operation conflicts with existing data. Please refresh and try again.",
   [ApiErrorCode.ALREADY_EXISTS]: "This item already exists.",
+  [ApiErrorCode.IDEMPOTENCY_KEY_IN_USE]: "Your previous attempt is still being processed. Please wait a moment.",
+  [ApiErrorCode.IDEMPOTENCY_KEY_REUSED]: "This request does not match your previous attempt. Please try again.",
+  [ApiErrorCode.PRECONDITION_FAILED]: "Someone else changed this item while you were editing. Reload it and try again.",
 
   // Server errors
   [ApiErrorCode.INTERNAL_SERVER_ERROR]: "Something went wrong on our end. Please try again later.",
@@ -48,6 +51,7 @@ export const HTTP_STATUS_TO_ERROR_CODE: Record<number, ApiErrorCode> = {
   403: ApiErrorCode.FORBIDDEN,
   404: ApiErrorCode.NOT_FOUND,
   409: ApiErrorCode.CONFLICT,
+  412: ApiErrorCode.PRECONDITION_FAILED,
   422: ApiErrorCode.VALIDATION_ERROR,
   429: ApiErrorCode.SERVICE_UNAVAILABLE, // Rate limited
   500: ApiErrorCode.INTERNAL_SERVER_ERROR,
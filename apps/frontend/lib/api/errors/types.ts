@@ -22,6 +22,10 @@ export const ApiErrorCode = {
   NOT_FOUND: "NOT_FOUND",
   CONFLICT: "CONFLICT",
   ALREADY_EXISTS: "ALREADY_EXISTS",
+  IDEMPOTENCY_KEY_IN_USE: "IDEMPOTENCY_KEY_IN_USE",
+  IDEMPOTENCY_KEY_REUSED: "IDEMPOTENCY_KEY_REUSED",
+  // Someone else changed the resource since it was read (If-Match failed)
+  PRECONDITION_FAILED: "PRECONDITION_FAILED",
 
   // Server errors
   INTERNAL_SERVER_ERROR: "INTERNAL_SERVER_ERROR",
@@ -42,11 +46,13 @@ export type ApiErrorCode = (typeof ApiErrorCode)[keyof typeof ApiErrorCode];
  * Structured API error response from backend
  */
 export interface ApiErrorResponse {
+  error?: string;
   message: string;
   detail?: string | Record<string, unknown>;
   errors?: ValidationError[];
   code?: string;
   status?: number;
+  requestId?: string;
 }
 
 /**
@@ -127,6 +133,14 @@ export class ApiError extends Error {
     return validationCodes.includes(this.code);
   }
 
+  /**
+   * Check if the error is an edit conflict: the resource changed since it was
+   * read, so reload it before saving again
+   */
+  isEditConflict(): boolean {
+    return this.code === ApiErrorCode.PRECONDITION_FAILED;
+  }
+
   /**
    * Check if the error is a server error
    */
@@ -148,6 +162,7 @@ export class ApiError extends Error {
       ApiErrorCode.TIMEOUT,
       ApiErrorCode.SERVICE_UNAVAILABLE,
       ApiErrorCode.BAD_GATEWAY,
+      ApiErrorCode.IDEMPOTENCY_KEY_IN_USE,
     ];
     return retryableCodes.includes(this.code);
   }
@@ -1,2 +1,5 @@
+export * from './health/health';
 export * from './users/users';
+export * from './auth/auth';
+export * from './roles/roles';
 export * from '../types';
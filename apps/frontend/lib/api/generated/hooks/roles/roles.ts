@@ -0,0 +1,255 @@
+/**
+ * Generated by orval v7.17.2 🍺
+ * Do not edit manually.
+ * User API
+ * Type-safe API with auto-generated OpenAPI specification
+ * OpenAPI spec version: v1
+ */
+import {
+  useMutation,
+  useQuery
+} from '@tanstack/react-query';
+import type {
+  DataTag,
+  DefinedInitialDataOptions,
+  DefinedUseQueryResult,
+  MutationFunction,
+  QueryClient,
+  QueryFunction,
+  QueryKey,
+  UndefinedInitialDataOptions,
+  UseMutationOptions,
+  UseMutationResult,
+  UseQueryOptions,
+  UseQueryResult
+} from '@tanstack/react-query';
+
+import type {
+  ErrorResponse,
+  GetRoles200Item,
+  PostRoles201,
+  PostRolesBody,
+  PutRolesByNamePermissions200,
+  PutRolesByNamePermissionsBody
+} from '../../types';
+
+import { customInstance } from '../../../axios-instance';
+import type { ErrorType , BodyType } from '../../../axios-instance';
+
+
+type SecondParameter<T extends (...args: never) => unknown> = Parameters<T>[1];
+
+
+
+/**
+ * List roles and the permissions each grants (requires roles:read)
+ */
+export const getRoles = (
+    
+ options?: SecondParameter<typeof customInstance>,signal?: AbortSignal
+) => {
+      
+      
+      return customInstance<GetRoles200Item[]>(
+      {url: `/api/v1/roles`, method: 'GET', signal
+    },
+      options);
+    }
+  
+
+
+
+export const getGetRolesQueryKey = () => {
+    return [
+    `/api/v1/roles`
+    ] as const;
+    }
+
+    
+export const getGetRolesQueryOptions = <TData = Awaited<ReturnType<typeof getRoles>>, TError = ErrorType<unknown>>( options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getRoles>>, TError, TData>>, request?: SecondParameter<typeof customInstance>}
+) => {
+
+const {query: queryOptions, request: requestOptions} = options ?? {};
+
+  const queryKey =  queryOptions?.queryKey ?? getGetRolesQueryKey();
+
+  
+
+    const queryFn: QueryFunction<Awaited<ReturnType<typeof getRoles>>> = ({ signal }) => getRoles(requestOptions, signal);
+
+      
+
+      
+
+   return  { queryKey, queryFn, ...queryOptions} as UseQueryOptions<Awaited<ReturnType<typeof getRoles>>, TError, TData> & { queryKey: DataTag<QueryKey, TData, TError> }
+}
+
+export type GetRolesQueryResult = NonNullable<Awaited<ReturnType<typeof getRoles>>>
+export type GetRolesQueryError = ErrorType<unknown>
+
+
+export function useGetRoles<TData = Awaited<ReturnType<typeof getRoles>>, TError = ErrorType<unknown>>(
+  options: { query:Partial<UseQueryOptions<Awaited<ReturnType<typeof getRoles>>, TError, TData>> & Pick<
+        DefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getRoles>>,
+          TError,
+          Awaited<ReturnType<typeof getRoles>>
+        > , 'initialData'
+      >, request?: SecondParameter<typeof customInstance>}
+ , queryClient?: QueryClient
+  ):  DefinedUseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetRoles<TData = Awaited<ReturnType<typeof getRoles>>, TError = ErrorType<unknown>>(
+  options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getRoles>>, TError, TData>> & Pick<
+        UndefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getRoles>>,
+          TError,
+          Awaited<ReturnType<typeof getRoles>>
+        > , 'initialData'
+      >, request?: SecondParameter<typeof customInstance>}
+ , queryClient?: QueryClient
+  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetRoles<TData = Awaited<ReturnType<typeof getRoles>>, TError = ErrorType<unknown>>(
+  options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getRoles>>, TError, TData>>, request?: SecondParameter<typeof customInstance>}
+ , queryClient?: QueryClient
+  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+
+export function useGetRoles<TData = Awaited<ReturnType<typeof getRoles>>, TError = ErrorType<unknown>>(
+  options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getRoles>>, TError, TData>>, request?: SecondParameter<typeof customInstance>}
+ , queryClient?: QueryClient 
+ ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> } {
+
+  const queryOptions = getGetRolesQueryOptions(options)
+
+  const query = useQuery(queryOptions, queryClient) as  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> };
+
+  query.queryKey = queryOptions.queryKey ;
+
+  return query;
+}
+
+
+
+
+/**
+ * Create a role (requires roles:manage)
+ */
+export const postRoles = (
+    postRolesBody: BodyType<PostRolesBody>,
+ options?: SecondParameter<typeof customInstance>,signal?: AbortSignal
+) => {
+      
+      
+      return customInstance<PostRoles201>(
+      {url: `/api/v1/roles`, method: 'POST',
+      headers: {'Content-Type': 'application/json', },
+      data: postRolesBody, signal
+    },
+      options);
+    }
+  
+
+
+export const getPostRolesMutationOptions = <TError = ErrorType<unknown>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postRoles>>, TError,{data: BodyType<PostRolesBody>}, TContext>, request?: SecondParameter<typeof customInstance>}
+): UseMutationOptions<Awaited<ReturnType<typeof postRoles>>, TError,{data: BodyType<PostRolesBody>}, TContext> => {
+
+const mutationKey = ['postRoles'];
+const {mutation: mutationOptions, request: requestOptions} = options ?
+      options.mutation && 'mutationKey' in options.mutation && options.mutation.mutationKey ?
+      options
+      : {...options, mutation: {...options.mutation, mutationKey}}
+      : {mutation: { mutationKey, }, request: undefined};
+
+      
+
+
+      const mutationFn: MutationFunction<Awaited<ReturnType<typeof postRoles>>, {data: BodyType<PostRolesBody>}> = (props) => {
+          const {data} = props ?? {};
+
+          return  postRoles(data,requestOptions)
+        }
+
+        
+
+
+  return  { mutationFn, ...mutationOptions }}
+
+    export type PostRolesMutationResult = NonNullable<Awaited<ReturnType<typeof postRoles>>>
+    export type PostRolesMutationBody = BodyType<PostRolesBody>
+    export type PostRolesMutationError = ErrorType<unknown>
+
+    export const usePostRoles = <TError = ErrorType<unknown>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postRoles>>, TError,{data: BodyType<PostRolesBody>}, TContext>, request?: SecondParameter<typeof customInstance>}
+ , queryClient?: QueryClient): UseMutationResult<
+        Awaited<ReturnType<typeof postRoles>>,
+        TError,
+        {data: BodyType<PostRolesBody>},
+        TContext
+      > => {
+
+      const mutationOptions = getPostRolesMutationOptions(options);
+
+      return useMutation(mutationOptions, queryClient);
+    }
+    /**
+ * Replace the permissions granted by a role (requires roles:manage)
+ */
+export const putRolesByNamePermissions = (
+    name: string,
+    putRolesByNamePermissionsBody: BodyType<PutRolesByNamePermissionsBody>,
+ options?: SecondParameter<typeof customInstance>,) => {
+      
+      
+      return customInstance<PutRolesByNamePermissions200>(
+      {url: `/api/v1/roles/${name}/permissions`, method: 'PUT',
+      headers: {'Content-Type': 'application/json', },
+      data: putRolesByNamePermissionsBody
+    },
+      options);
+    }
+  
+
+
+export const getPutRolesByNamePermissionsMutationOptions = <TError = ErrorType<unknown | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof putRolesByNamePermissions>>, TError,{name: string;data: BodyType<PutRolesByNamePermissionsBody>}, TContext>, request?: SecondParameter<typeof customInstance>}
+): UseMutationOptions<Awaited<ReturnType<typeof putRolesByNamePermissions>>, TError,{name: string;data: BodyType<PutRolesByNamePermissionsBody>}, TContext> => {
+
+const mutationKey = ['putRolesByNamePermissions'];
+const {mutation: mutationOptions, request: requestOptions} = options ?
+      options.mutation && 'mutationKey' in options.mutation && options.mutation.mutationKey ?
+      options
+      : {...options, mutation: {...options.mutation, mutationKey}}
+      : {mutation: { mutationKey, }, request: undefined};
+
+      
+
+
+      const mutationFn: MutationFunction<Awaited<ReturnType<typeof putRolesByNamePermissions>>, {name: string;data: BodyType<PutRolesByNamePermissionsBody>}> = (props) => {
+          const {name,data} = props ?? {};
+
+          return  putRolesByNamePermissions(name,data,requestOptions)
+        }
+
+        
+
+
+  return  { mutationFn, ...mutationOptions }}
+
+    export type PutRolesByNamePermissionsMutationResult = NonNullable<Awaited<ReturnType<typeof putRolesByNamePermissions>>>
+    export type PutRolesByNamePermissionsMutationBody = BodyType<PutRolesByNamePermissionsBody>
+    export type PutRolesByNamePermissionsMutationError = ErrorType<unknown | ErrorResponse>
+
+    export const usePutRolesByNamePermissions = <TError = ErrorType<unknown | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof putRolesByNamePermissions>>, TError,{name: string;data: BodyType<PutRolesByNamePermissionsBody>}, TContext>, request?: SecondParameter<typeof customInstance>}
+ , queryClient?: QueryClient): UseMutationResult<
+        Awaited<ReturnType<typeof putRolesByNamePermissions>>,
+        TError,
+        {name: string;data: BodyType<PutRolesByNamePermissionsBody>},
+        TContext
+      > => {
+
+      const mutationOptions = getPutRolesByNamePermissionsMutationOptions(options);
+
+      return useMutation(mutationOptions, queryClient);
+    }
+    
\ No newline at end of file
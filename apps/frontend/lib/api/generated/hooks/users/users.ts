@@ -3,21 +3,26 @@
  * Do not edit manually.
  * User API
  * Type-safe API with auto-generated OpenAPI specification
- * OpenAPI spec version: 1.0.0
+ * OpenAPI spec version: v1
  */
 import {
+  useInfiniteQuery,
   useMutation,
   useQuery
 } from '@tanstack/react-query';
 import type {
   DataTag,
   DefinedInitialDataOptions,
+  DefinedUseInfiniteQueryResult,
   DefinedUseQueryResult,
+  InfiniteData,
   MutationFunction,
   QueryClient,
   QueryFunction,
   QueryKey,
   UndefinedInitialDataOptions,
+  UseInfiniteQueryOptions,
+  UseInfiniteQueryResult,
   UseMutationOptions,
   UseMutationResult,
   UseQueryOptions,
@@ -25,10 +30,17 @@ import type {
 } from '@tanstack/react-query';
 
 import type {
-  GetUsers200Item,
+  ErrorResponse,
+  GetUsers200,
+  GetUsersById200,
+  GetUsersCursor200,
+  GetUsersCursorParams,
+  GetUsersParams,
+  PatchUsersById200,
+  PatchUsersByIdBody,
   PostUsers201,
-  PostUsers400,
-  PostUsersBody
+  PostUsersBody,
+  PutUsersByIdPasswordBody
 } from '../../types';
 
 import { customInstance } from '../../../axios-instance';
@@ -40,7 +52,7 @@ type SecondParameter<T extends (...args: never) => unknown> = Parameters<T>[1];
 
 
 /**
- * Create a new user
+ * Create a new user (setting a role other than "user" requires users:assign-role)
  */
 export const postUsers = (
     postUsersBody: BodyType<PostUsersBody>,
@@ -49,7 +61,7 @@ export const postUsers = (
       
       
       return customInstance<PostUsers201>(
-      {url: `/users`, method: 'POST',
+      {url: `/api/v1/users`, method: 'POST',
       headers: {'Content-Type': 'application/json', },
       data: postUsersBody, signal
     },
@@ -58,7 +70,7 @@ export const postUsers = (
   
 
 
-export const getPostUsersMutationOptions = <TError = ErrorType<PostUsers400>,
+export const getPostUsersMutationOptions = <TError = ErrorType<ErrorResponse>,
     TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postUsers>>, TError,{data: BodyType<PostUsersBody>}, TContext>, request?: SecondParameter<typeof customInstance>}
 ): UseMutationOptions<Awaited<ReturnType<typeof postUsers>>, TError,{data: BodyType<PostUsersBody>}, TContext> => {
 
@@ -85,9 +97,9 @@ const {mutation: mutationOptions, request: requestOptions} = options ?
 
     export type PostUsersMutationResult = NonNullable<Awaited<ReturnType<typeof postUsers>>>
     export type PostUsersMutationBody = BodyType<PostUsersBody>
-    export type PostUsersMutationError = ErrorType<PostUsers400>
+    export type PostUsersMutationError = ErrorType<ErrorResponse>
 
-    export const usePostUsers = <TError = ErrorType<PostUsers400>,
+    export const usePostUsers = <TError = ErrorType<ErrorResponse>,
     TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof postUsers>>, TError,{data: BodyType<PostUsersBody>}, TContext>, request?: SecondParameter<typeof customInstance>}
  , queryClient?: QueryClient): UseMutationResult<
         Awaited<ReturnType<typeof postUsers>>,
@@ -101,16 +113,17 @@ const {mutation: mutationOptions, request: requestOptions} = options ?
       return useMutation(mutationOptions, queryClient);
     }
     /**
- * Get all users
+ * Get a paginated list of users (requires users:read)
  */
 export const getUsers = (
-    
+    params?: GetUsersParams,
  options?: SecondParameter<typeof customInstance>,signal?: AbortSignal
 ) => {
       
       
-      return customInstance<GetUsers200Item[]>(
-      {url: `/users`, method: 'GET', signal
+      return customInstance<GetUsers200>(
+      {url: `/api/v1/users`, method: 'GET',
+        params, signal
     },
       options);
     }
@@ -118,23 +131,23 @@ export const getUsers = (
 
 
 
-export const getGetUsersQueryKey = () => {
+export const getGetUsersQueryKey = (params?: GetUsersParams,) => {
     return [
-    `/users`
+    `/api/v1/users`, ...(params ? [params]: [])
     ] as const;
     }
 
     
-export const getGetUsersQueryOptions = <TData = Awaited<ReturnType<typeof getUsers>>, TError = ErrorType<unknown>>( options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getUsers>>, TError, TData>>, request?: SecondParameter<typeof customInstance>}
+export const getGetUsersQueryOptions = <TData = Awaited<ReturnType<typeof getUsers>>, TError = ErrorType<unknown>>(params?: GetUsersParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getUsers>>, TError, TData>>, request?: SecondParameter<typeof customInstance>}
 ) => {
 
 const {query: queryOptions, request: requestOptions} = options ?? {};
 
-  const queryKey =  queryOptions?.queryKey ?? getGetUsersQueryKey();
+  const queryKey =  queryOptions?.queryKey ?? getGetUsersQueryKey(params);
 
   
 
-    const queryFn: QueryFunction<Awaited<ReturnType<typeof getUsers>>> = ({ signal }) => getUsers(requestOptions, signal);
+    const queryFn: QueryFunction<Awaited<ReturnType<typeof getUsers>>> = ({ signal }) => getUsers(params, requestOptions, signal);
 
       
 
@@ -148,7 +161,7 @@ export type GetUsersQueryError = ErrorType<unknown>
 
 
 export function useGetUsers<TData = Awaited<ReturnType<typeof getUsers>>, TError = ErrorType<unknown>>(
-  options: { query:Partial<UseQueryOptions<Awaited<ReturnType<typeof getUsers>>, TError, TData>> & Pick<
+ params: undefined |  GetUsersParams, options: { query:Partial<UseQueryOptions<Awaited<ReturnType<typeof getUsers>>, TError, TData>> & Pick<
         DefinedInitialDataOptions<
           Awaited<ReturnType<typeof getUsers>>,
           TError,
@@ -158,7 +171,7 @@ export function useGetUsers<TData = Awaited<ReturnType<typeof getUsers>>, TError
  , queryClient?: QueryClient
   ):  DefinedUseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
 export function useGetUsers<TData = Awaited<ReturnType<typeof getUsers>>, TError = ErrorType<unknown>>(
-  options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getUsers>>, TError, TData>> & Pick<
+ params?: GetUsersParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getUsers>>, TError, TData>> & Pick<
         UndefinedInitialDataOptions<
           Awaited<ReturnType<typeof getUsers>>,
           TError,
@@ -168,16 +181,16 @@ export function useGetUsers<TData = Awaited<ReturnType<typeof getUsers>>, TError
  , queryClient?: QueryClient
   ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
 export function useGetUsers<TData = Awaited<ReturnType<typeof getUsers>>, TError = ErrorType<unknown>>(
-  options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getUsers>>, TError, TData>>, request?: SecondParameter<typeof customInstance>}
+ params?: GetUsersParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getUsers>>, TError, TData>>, request?: SecondParameter<typeof customInstance>}
  , queryClient?: QueryClient
   ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
 
 export function useGetUsers<TData = Awaited<ReturnType<typeof getUsers>>, TError = ErrorType<unknown>>(
-  options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getUsers>>, TError, TData>>, request?: SecondParameter<typeof customInstance>}
+ params?: GetUsersParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getUsers>>, TError, TData>>, request?: SecondParameter<typeof customInstance>}
  , queryClient?: QueryClient 
  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> } {
 
-  const queryOptions = getGetUsersQueryOptions(options)
+  const queryOptions = getGetUsersQueryOptions(params,options)
 
   const query = useQuery(queryOptions, queryClient) as  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> };
 
@@ -189,3 +202,433 @@ export function useGetUsers<TData = Awaited<ReturnType<typeof getUsers>>, TError
 
 
 
+/**
+ * Get users newest first using an opaque cursor (for infinite scrolling, requires users:read)
+ */
+export const getUsersCursor = (
+    params?: GetUsersCursorParams,
+ options?: SecondParameter<typeof customInstance>,signal?: AbortSignal
+) => {
+      
+      
+      return customInstance<GetUsersCursor200>(
+      {url: `/api/v1/users/cursor`, method: 'GET',
+        params, signal
+    },
+      options);
+    }
+  
+
+
+
+export const getGetUsersCursorInfiniteQueryKey = (params?: GetUsersCursorParams,) => {
+    return [
+    'infinite', `/api/v1/users/cursor`, ...(params ? [params]: [])
+    ] as const;
+    }
+
+export const getGetUsersCursorQueryKey = (params?: GetUsersCursorParams,) => {
+    return [
+    `/api/v1/users/cursor`, ...(params ? [params]: [])
+    ] as const;
+    }
+
+    
+export const getGetUsersCursorInfiniteQueryOptions = <TData = InfiniteData<Awaited<ReturnType<typeof getUsersCursor>>, GetUsersCursorParams['cursor']>, TError = ErrorType<ErrorResponse | unknown>>(params?: GetUsersCursorParams, options?: { query?:Partial<UseInfiniteQueryOptions<Awaited<ReturnType<typeof getUsersCursor>>, TError, TData, QueryKey, GetUsersCursorParams['cursor']>>, request?: SecondParameter<typeof customInstance>}
+) => {
+
+const {query: queryOptions, request: requestOptions} = options ?? {};
+
+  const queryKey =  queryOptions?.queryKey ?? getGetUsersCursorInfiniteQueryKey(params);
+
+  
+
+    const queryFn: QueryFunction<Awaited<ReturnType<typeof getUsersCursor>>, QueryKey, GetUsersCursorParams['cursor']> = ({ signal, pageParam }) => getUsersCursor({...params, 'cursor': pageParam || params?.['cursor']}, requestOptions, signal);
+
+      
+
+      
+
+   return  { queryKey, queryFn, ...queryOptions} as UseInfiniteQueryOptions<Awaited<ReturnType<typeof getUsersCursor>>, TError, TData, QueryKey, GetUsersCursorParams['cursor']> & { queryKey: DataTag<QueryKey, TData, TError> }
+}
+
+export type GetUsersCursorInfiniteQueryResult = NonNullable<Awaited<ReturnType<typeof getUsersCursor>>>
+export type GetUsersCursorInfiniteQueryError = ErrorType<ErrorResponse | unknown>
+
+
+export function useGetUsersCursorInfinite<TData = InfiniteData<Awaited<ReturnType<typeof getUsersCursor>>, GetUsersCursorParams['cursor']>, TError = ErrorType<ErrorResponse | unknown>>(
+ params: undefined |  GetUsersCursorParams, options: { query:Partial<UseInfiniteQueryOptions<Awaited<ReturnType<typeof getUsersCursor>>, TError, TData, QueryKey, GetUsersCursorParams['cursor']>> & Pick<
+        DefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getUsersCursor>>,
+          TError,
+          Awaited<ReturnType<typeof getUsersCursor>>, QueryKey
+        > , 'initialData'
+      >, request?: SecondParameter<typeof customInstance>}
+ , queryClient?: QueryClient
+  ):  DefinedUseInfiniteQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetUsersCursorInfinite<TData = InfiniteData<Awaited<ReturnType<typeof getUsersCursor>>, GetUsersCursorParams['cursor']>, TError = ErrorType<ErrorResponse | unknown>>(
+ params?: GetUsersCursorParams, options?: { query?:Partial<UseInfiniteQueryOptions<Awaited<ReturnType<typeof getUsersCursor>>, TError, TData, QueryKey, GetUsersCursorParams['cursor']>> & Pick<
+        UndefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getUsersCursor>>,
+          TError,
+          Awaited<ReturnType<typeof getUsersCursor>>, QueryKey
+        > , 'initialData'
+      >, request?: SecondParameter<typeof customInstance>}
+ , queryClient?: QueryClient
+  ):  UseInfiniteQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetUsersCursorInfinite<TData = InfiniteData<Awaited<ReturnType<typeof getUsersCursor>>, GetUsersCursorParams['cursor']>, TError = ErrorType<ErrorResponse | unknown>>(
+ params?: GetUsersCursorParams, options?: { query?:Partial<UseInfiniteQueryOptions<Awaited<ReturnType<typeof getUsersCursor>>, TError, TData, QueryKey, GetUsersCursorParams['cursor']>>, request?: SecondParameter<typeof customInstance>}
+ , queryClient?: QueryClient
+  ):  UseInfiniteQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+
+export function useGetUsersCursorInfinite<TData = InfiniteData<Awaited<ReturnType<typeof getUsersCursor>>, GetUsersCursorParams['cursor']>, TError = ErrorType<ErrorResponse | unknown>>(
+ params?: GetUsersCursorParams, options?: { query?:Partial<UseInfiniteQueryOptions<Awaited<ReturnType<typeof getUsersCursor>>, TError, TData, QueryKey, GetUsersCursorParams['cursor']>>, request?: SecondParameter<typeof customInstance>}
+ , queryClient?: QueryClient 
+ ):  UseInfiniteQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> } {
+
+  const queryOptions = getGetUsersCursorInfiniteQueryOptions(params,options)
+
+  const query = useInfiniteQuery(queryOptions, queryClient) as  UseInfiniteQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> };
+
+  query.queryKey = queryOptions.queryKey ;
+
+  return query;
+}
+
+
+
+
+export const getGetUsersCursorQueryOptions = <TData = Awaited<ReturnType<typeof getUsersCursor>>, TError = ErrorType<ErrorResponse | unknown>>(params?: GetUsersCursorParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getUsersCursor>>, TError, TData>>, request?: SecondParameter<typeof customInstance>}
+) => {
+
+const {query: queryOptions, request: requestOptions} = options ?? {};
+
+  const queryKey =  queryOptions?.queryKey ?? getGetUsersCursorQueryKey(params);
+
+  
+
+    const queryFn: QueryFunction<Awaited<ReturnType<typeof getUsersCursor>>> = ({ signal }) => getUsersCursor(params, requestOptions, signal);
+
+      
+
+      
+
+   return  { queryKey, queryFn, ...queryOptions} as UseQueryOptions<Awaited<ReturnType<typeof getUsersCursor>>, TError, TData> & { queryKey: DataTag<QueryKey, TData, TError> }
+}
+
+export type GetUsersCursorQueryResult = NonNullable<Awaited<ReturnType<typeof getUsersCursor>>>
+export type GetUsersCursorQueryError = ErrorType<ErrorResponse | unknown>
+
+
+export function useGetUsersCursor<TData = Awaited<ReturnType<typeof getUsersCursor>>, TError = ErrorType<ErrorResponse | unknown>>(
+ params: undefined |  GetUsersCursorParams, options: { query:Partial<UseQueryOptions<Awaited<ReturnType<typeof getUsersCursor>>, TError, TData>> & Pick<
+        DefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getUsersCursor>>,
+          TError,
+          Awaited<ReturnType<typeof getUsersCursor>>
+        > , 'initialData'
+      >, request?: SecondParameter<typeof customInstance>}
+ , queryClient?: QueryClient
+  ):  DefinedUseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetUsersCursor<TData = Awaited<ReturnType<typeof getUsersCursor>>, TError = ErrorType<ErrorResponse | unknown>>(
+ params?: GetUsersCursorParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getUsersCursor>>, TError, TData>> & Pick<
+        UndefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getUsersCursor>>,
+          TError,
+          Awaited<ReturnType<typeof getUsersCursor>>
+        > , 'initialData'
+      >, request?: SecondParameter<typeof customInstance>}
+ , queryClient?: QueryClient
+  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetUsersCursor<TData = Awaited<ReturnType<typeof getUsersCursor>>, TError = ErrorType<ErrorResponse | unknown>>(
+ params?: GetUsersCursorParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getUsersCursor>>, TError, TData>>, request?: SecondParameter<typeof customInstance>}
+ , queryClient?: QueryClient
+  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+
+export function useGetUsersCursor<TData = Awaited<ReturnType<typeof getUsersCursor>>, TError = ErrorType<ErrorResponse | unknown>>(
+ params?: GetUsersCursorParams, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getUsersCursor>>, TError, TData>>, request?: SecondParameter<typeof customInstance>}
+ , queryClient?: QueryClient 
+ ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> } {
+
+  const queryOptions = getGetUsersCursorQueryOptions(params,options)
+
+  const query = useQuery(queryOptions, queryClient) as  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> };
+
+  query.queryKey = queryOptions.queryKey ;
+
+  return query;
+}
+
+
+
+
+/**
+ * Get a user by ID (requires users:read, or the user themselves)
+ */
+export const getUsersById = (
+    id: string,
+ options?: SecondParameter<typeof customInstance>,signal?: AbortSignal
+) => {
+      
+      
+      return customInstance<GetUsersById200>(
+      {url: `/api/v1/users/${id}`, method: 'GET', signal
+    },
+      options);
+    }
+  
+
+
+
+export const getGetUsersByIdQueryKey = (id?: string,) => {
+    return [
+    `/api/v1/users/${id}`
+    ] as const;
+    }
+
+    
+export const getGetUsersByIdQueryOptions = <TData = Awaited<ReturnType<typeof getUsersById>>, TError = ErrorType<unknown | ErrorResponse>>(id: string, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getUsersById>>, TError, TData>>, request?: SecondParameter<typeof customInstance>}
+) => {
+
+const {query: queryOptions, request: requestOptions} = options ?? {};
+
+  const queryKey =  queryOptions?.queryKey ?? getGetUsersByIdQueryKey(id);
+
+  
+
+    const queryFn: QueryFunction<Awaited<ReturnType<typeof getUsersById>>> = ({ signal }) => getUsersById(id, requestOptions, signal);
+
+      
+
+      
+
+   return  { queryKey, queryFn, enabled: !!(id), ...queryOptions} as UseQueryOptions<Awaited<ReturnType<typeof getUsersById>>, TError, TData> & { queryKey: DataTag<QueryKey, TData, TError> }
+}
+
+export type GetUsersByIdQueryResult = NonNullable<Awaited<ReturnType<typeof getUsersById>>>
+export type GetUsersByIdQueryError = ErrorType<unknown | ErrorResponse>
+
+
+export function useGetUsersById<TData = Awaited<ReturnType<typeof getUsersById>>, TError = ErrorType<unknown | ErrorResponse>>(
+ id: string, options: { query:Partial<UseQueryOptions<Awaited<ReturnType<typeof getUsersById>>, TError, TData>> & Pick<
+        DefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getUsersById>>,
+          TError,
+          Awaited<ReturnType<typeof getUsersById>>
+        > , 'initialData'
+      >, request?: SecondParameter<typeof customInstance>}
+ , queryClient?: QueryClient
+  ):  DefinedUseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetUsersById<TData = Awaited<ReturnType<typeof getUsersById>>, TError = ErrorType<unknown | ErrorResponse>>(
+ id: string, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getUsersById>>, TError, TData>> & Pick<
+        UndefinedInitialDataOptions<
+          Awaited<ReturnType<typeof getUsersById>>,
+          TError,
+          Awaited<ReturnType<typeof getUsersById>>
+        > , 'initialData'
+      >, request?: SecondParameter<typeof customInstance>}
+ , queryClient?: QueryClient
+  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+export function useGetUsersById<TData = Awaited<ReturnType<typeof getUsersById>>, TError = ErrorType<unknown | ErrorResponse>>(
+ id: string, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getUsersById>>, TError, TData>>, request?: SecondParameter<typeof customInstance>}
+ , queryClient?: QueryClient
+  ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> }
+
+export function useGetUsersById<TData = Awaited<ReturnType<typeof getUsersById>>, TError = ErrorType<unknown | ErrorResponse>>(
+ id: string, options?: { query?:Partial<UseQueryOptions<Awaited<ReturnType<typeof getUsersById>>, TError, TData>>, request?: SecondParameter<typeof customInstance>}
+ , queryClient?: QueryClient 
+ ):  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> } {
+
+  const queryOptions = getGetUsersByIdQueryOptions(id,options)
+
+  const query = useQuery(queryOptions, queryClient) as  UseQueryResult<TData, TError> & { queryKey: DataTag<QueryKey, TData, TError> };
+
+  query.queryKey = queryOptions.queryKey ;
+
+  return query;
+}
+
+
+
+
+/**
+ * Update a user (requires users:update, or the user themselves; changing a role requires users:assign-role)
+ */
+export const patchUsersById = (
+    id: string,
+    patchUsersByIdBody: BodyType<PatchUsersByIdBody>,
+ options?: SecondParameter<typeof customInstance>,) => {
+      
+      
+      return customInstance<PatchUsersById200>(
+      {url: `/api/v1/users/${id}`, method: 'PATCH',
+      headers: {'Content-Type': 'application/json', },
+      data: patchUsersByIdBody
+    },
+      options);
+    }
+  
+
+
+export const getPatchUsersByIdMutationOptions = <TError = ErrorType<unknown | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof patchUsersById>>, TError,{id: string;data: BodyType<PatchUsersByIdBody>}, TContext>, request?: SecondParameter<typeof customInstance>}
+): UseMutationOptions<Awaited<ReturnType<typeof patchUsersById>>, TError,{id: string;data: BodyType<PatchUsersByIdBody>}, TContext> => {
+
+const mutationKey = ['patchUsersById'];
+const {mutation: mutationOptions, request: requestOptions} = options ?
+      options.mutation && 'mutationKey' in options.mutation && options.mutation.mutationKey ?
+      options
+      : {...options, mutation: {...options.mutation, mutationKey}}
+      : {mutation: { mutationKey, }, request: undefined};
+
+      
+
+
+      const mutationFn: MutationFunction<Awaited<ReturnType<typeof patchUsersById>>, {id: string;data: BodyType<PatchUsersByIdBody>}> = (props) => {
+          const {id,data} = props ?? {};
+
+          return  patchUsersById(id,data,requestOptions)
+        }
+
+        
+
+
+  return  { mutationFn, ...mutationOptions }}
+
+    export type PatchUsersByIdMutationResult = NonNullable<Awaited<ReturnType<typeof patchUsersById>>>
+    export type PatchUsersByIdMutationBody = BodyType<PatchUsersByIdBody>
+    export type PatchUsersByIdMutationError = ErrorType<unknown | ErrorResponse>
+
+    export const usePatchUsersById = <TError = ErrorType<unknown | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof patchUsersById>>, TError,{id: string;data: BodyType<PatchUsersByIdBody>}, TContext>, request?: SecondParameter<typeof customInstance>}
+ , queryClient?: QueryClient): UseMutationResult<
+        Awaited<ReturnType<typeof patchUsersById>>,
+        TError,
+        {id: string;data: BodyType<PatchUsersByIdBody>},
+        TContext
+      > => {
+
+      const mutationOptions = getPatchUsersByIdMutationOptions(options);
+
+      return useMutation(mutationOptions, queryClient);
+    }
+    /**
+ * Delete a user (requires users:delete)
+ */
+export const deleteUsersById = (
+    id: string,
+ options?: SecondParameter<typeof customInstance>,) => {
+      
+      
+      return customInstance<void>(
+      {url: `/api/v1/users/${id}`, method: 'DELETE'
+    },
+      options);
+    }
+  
+
+
+export const getDeleteUsersByIdMutationOptions = <TError = ErrorType<unknown | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof deleteUsersById>>, TError,{id: string}, TContext>, request?: SecondParameter<typeof customInstance>}
+): UseMutationOptions<Awaited<ReturnType<typeof deleteUsersById>>, TError,{id: string}, TContext> => {
+
+const mutationKey = ['deleteUsersById'];
+const {mutation: mutationOptions, request: requestOptions} = options ?
+      options.mutation && 'mutationKey' in options.mutation && options.mutation.mutationKey ?
+      options
+      : {...options, mutation: {...options.mutation, mutationKey}}
+      : {mutation: { mutationKey, }, request: undefined};
+
+      
+
+
+      const mutationFn: MutationFunction<Awaited<ReturnType<typeof deleteUsersById>>, {id: string}> = (props) => {
+          const {id} = props ?? {};
+
+          return  deleteUsersById(id,requestOptions)
+        }
+
+        
+
+
+  return  { mutationFn, ...mutationOptions }}
+
+    export type DeleteUsersByIdMutationResult = NonNullable<Awaited<ReturnType<typeof deleteUsersById>>>
+    
+    export type DeleteUsersByIdMutationError = ErrorType<unknown | ErrorResponse>
+
+    export const useDeleteUsersById = <TError = ErrorType<unknown | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof deleteUsersById>>, TError,{id: string}, TContext>, request?: SecondParameter<typeof customInstance>}
+ , queryClient?: QueryClient): UseMutationResult<
+        Awaited<ReturnType<typeof deleteUsersById>>,
+        TError,
+        {id: string},
+        TContext
+      > => {
+
+      const mutationOptions = getDeleteUsersByIdMutationOptions(options);
+
+      return useMutation(mutationOptions, queryClient);
+    }
+    /**
+ * Set or reset a user's password and sign out all their sessions (requires users:set-password)
+ */
+export const putUsersByIdPassword = (
+    id: string,
+    putUsersByIdPasswordBody: BodyType<PutUsersByIdPasswordBody>,
+ options?: SecondParameter<typeof customInstance>,) => {
+      
+      
+      return customInstance<void>(
+      {url: `/api/v1/users/${id}/password`, method: 'PUT',
+      headers: {'Content-Type': 'application/json', },
+      data: putUsersByIdPasswordBody
+    },
+      options);
+    }
+  
+
+
+export const getPutUsersByIdPasswordMutationOptions = <TError = ErrorType<unknown | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof putUsersByIdPassword>>, TError,{id: string;data: BodyType<PutUsersByIdPasswordBody>}, TContext>, request?: SecondParameter<typeof customInstance>}
+): UseMutationOptions<Awaited<ReturnType<typeof putUsersByIdPassword>>, TError,{id: string;data: BodyType<PutUsersByIdPasswordBody>}, TContext> => {
+
+const mutationKey = ['putUsersByIdPassword'];
+const {mutation: mutationOptions, request: requestOptions} = options ?
+      options.mutation && 'mutationKey' in options.mutation && options.mutation.mutationKey ?
+      options
+      : {...options, mutation: {...options.mutation, mutationKey}}
+      : {mutation: { mutationKey, }, request: undefined};
+
+      
+
+
+      const mutationFn: MutationFunction<Awaited<ReturnType<typeof putUsersByIdPassword>>, {id: string;data: BodyType<PutUsersByIdPasswordBody>}> = (props) => {
+          const {id,data} = props ?? {};
+
+          return  putUsersByIdPassword(id,data,requestOptions)
+        }
+
+        
+
+
+  return  { mutationFn, ...mutationOptions }}
+
+    export type PutUsersByIdPasswordMutationResult = NonNullable<Awaited<ReturnType<typeof putUsersByIdPassword>>>
+    export type PutUsersByIdPasswordMutationBody = BodyType<PutUsersByIdPasswordBody>
+    export type PutUsersByIdPasswordMutationError = ErrorType<unknown | ErrorResponse>
+
+    export const usePutUsersByIdPassword = <TError = ErrorType<unknown | ErrorResponse>,
+    TContext = unknown>(options?: { mutation?:UseMutationOptions<Awaited<ReturnType<typeof putUsersByIdPassword>>, TError,{id: string;data: BodyType<PutUsersByIdPasswordBody>}, TContext>, request?: SecondParameter<typeof customInstance>}
+ , queryClient?: QueryClient): UseMutationResult<
+        Awaited<ReturnType<typeof putUsersByIdPassword>>,
+        TError,
+        {id: string;data: BodyType<PutUsersByIdPasswordBody>},
+        TContext
+      > => {
+
+      const mutationOptions = getPutUsersByIdPasswordMutationOptions(options);
+
+      return useMutation(mutationOptions, queryClient);
+    }
+    
\ No newline at end of file
@@ -0,0 +1,102 @@
+/**
+ * Generated by orval v7.17.2 🍺
+ * Do not edit manually.
+ * User API
+ * Type-safe API with auto-generated OpenAPI specification
+ * OpenAPI spec version: v1
+ */
+import * as zod from 'zod';
+
+
+/**
+ * Sign in and receive an access token
+ */
+export const postAuthLoginBodyEmailRegExp = new RegExp('^(?!\\.)(?!.*\\.\\.)([A-Za-z0-9_\'+\\-\\.]*)[A-Za-z0-9_+-]@([A-Za-z0-9][A-Za-z0-9\\-]*\\.)+[A-Za-z]{2,}$');
+
+
+
+export const postAuthLoginBody = zod.object({
+  "email": zod.email().regex(postAuthLoginBodyEmailRegExp).describe('User email address'),
+  "password": zod.string().min(1).describe('User password')
+})
+
+export const postAuthLoginResponseRefreshTokenExpiresAtRegExp = new RegExp('^(?:(?:\\d\\d[2468][048]|\\d\\d[13579][26]|\\d\\d0[48]|[02468][048]00|[13579][26]00)-02-29|\\d{4}-(?:(?:0[13578]|1[02])-(?:0[1-9]|[12]\\d|3[01])|(?:0[469]|11)-(?:0[1-9]|[12]\\d|30)|(?:02)-(?:0[1-9]|1\\d|2[0-8])))T(?:(?:[01]\\d|2[0-3]):[0-5]\\d(?::[0-5]\\d(?:\\.\\d+)?)?(?:Z))$');
+
+
+export const postAuthLoginResponse = zod.object({
+  "accessToken": zod.string().describe('Signed JWT access token'),
+  "tokenType": zod.literal("Bearer").describe('Token type for the Authorization header'),
+  "expiresIn": zod.string().describe('Access token lifetime'),
+  "refreshToken": zod.string().describe('Single-use refresh token for POST /api/v1/auth/refresh'),
+  "refreshTokenExpiresAt": zod.iso.datetime({}).regex(postAuthLoginResponseRefreshTokenExpiresAtRegExp).describe('When the refresh token expires')
+})
+
+/**
+ * Exchange a refresh token for a new access and refresh token
+ */
+
+
+
+export const postAuthRefreshBody = zod.object({
+  "refreshToken": zod.string().min(1).describe('Refresh token from the last login or refresh')
+})
+
+export const postAuthRefreshResponseRefreshTokenExpiresAtRegExp = new RegExp('^(?:(?:\\d\\d[2468][048]|\\d\\d[13579][26]|\\d\\d0[48]|[02468][048]00|[13579][26]00)-02-29|\\d{4}-(?:(?:0[13578]|1[02])-(?:0[1-9]|[12]\\d|3[01])|(?:0[469]|11)-(?:0[1-9]|[12]\\d|30)|(?:02)-(?:0[1-9]|1\\d|2[0-8])))T(?:(?:[01]\\d|2[0-3]):[0-5]\\d(?::[0-5]\\d(?:\\.\\d+)?)?(?:Z))$');
+
+
+export const postAuthRefreshResponse = zod.object({
+  "accessToken": zod.string().describe('Signed JWT access token'),
+  "tokenType": zod.literal("Bearer").describe('Token type for the Authorization header'),
+  "expiresIn": zod.string().describe('Access token lifetime'),
+  "refreshToken": zod.string().describe('Single-use refresh token for POST /api/v1/auth/refresh'),
+  "refreshTokenExpiresAt": zod.iso.datetime({}).regex(postAuthRefreshResponseRefreshTokenExpiresAtRegExp).describe('When the refresh token expires')
+})
+
+/**
+ * Sign out by revoking a refresh token and its session
+ */
+
+
+
+export const postAuthLogoutBody = zod.object({
+  "refreshToken": zod.string().min(1).describe('Refresh token from the last login or refresh')
+})
+
+/**
+ * Change the current user's password and sign out all sessions
+ */
+
+export const postAuthPasswordChangeBodyNewPasswordMin = 12;
+export const postAuthPasswordChangeBodyNewPasswordMax = 128;
+
+
+
+export const postAuthPasswordChangeBody = zod.object({
+  "currentPassword": zod.string().min(1).describe('Current password'),
+  "newPassword": zod.string().min(postAuthPasswordChangeBodyNewPasswordMin).max(postAuthPasswordChangeBodyNewPasswordMax).describe('Password (12-128 characters, at least one letter and one digit)')
+})
+
+/**
+ * Get the currently authenticated user and their effective permissions
+ */
+export const getAuthMeResponseIdRegExp = new RegExp('^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$');
+export const getAuthMeResponseCreatedAtRegExp = new RegExp('^(?:(?:\\d\\d[2468][048]|\\d\\d[13579][26]|\\d\\d0[48]|[02468][048]00|[13579][26]00)-02-29|\\d{4}-(?:(?:0[13578]|1[02])-(?:0[1-9]|[12]\\d|3[01])|(?:0[469]|11)-(?:0[1-9]|[12]\\d|30)|(?:02)-(?:0[1-9]|1\\d|2[0-8])))T(?:(?:[01]\\d|2[0-3]):[0-5]\\d(?::[0-5]\\d(?:\\.\\d+)?)?(?:Z))$');
+export const getAuthMeResponseUpdatedAtRegExp = new RegExp('^(?:(?:\\d\\d[2468][048]|\\d\\d[13579][26]|\\d\\d0[48]|[02468][048]00|[13579][26]00)-02-29|\\d{4}-(?:(?:0[13578]|1[02])-(?:0[1-9]|[12]\\d|3[01])|(?:0[469]|11)-(?:0[1-9]|[12]\\d|30)|(?:02)-(?:0[1-9]|1\\d|2[0-8])))T(?:(?:[01]\\d|2[0-3]):[0-5]\\d(?::[0-5]\\d(?:\\.\\d+)?)?(?:Z))$');
+export const getAuthMeResponseEmailRegExp = new RegExp('^(?!\\.)(?!.*\\.\\.)([A-Za-z0-9_\'+\\-\\.]*)[A-Za-z0-9_+-]@([A-Za-z0-9][A-Za-z0-9\\-]*\\.)+[A-Za-z]{2,}$');
+export const getAuthMeResponseRoleMax = 50;
+
+
+export const getAuthMeResponseRoleRegExp = new RegExp('^[a-z][a-z0-9-]*$');
+
+
+export const getAuthMeResponse = zod.object({
+  "id": zod.uuid().regex(getAuthMeResponseIdRegExp).describe('User ID'),
+  "name": zod.union([zod.string(),zod.null()]).describe('User name'),
+  "createdAt": zod.iso.datetime({}).regex(getAuthMeResponseCreatedAtRegExp).describe('When the user was created'),
+  "updatedAt": zod.iso.datetime({}).regex(getAuthMeResponseUpdatedAtRegExp).describe('When the user was last changed'),
+  "email": zod.email().regex(getAuthMeResponseEmailRegExp).describe('User email address'),
+  "role": zod.string().max(getAuthMeResponseRoleMax).regex(getAuthMeResponseRoleRegExp).describe('User role (see GET /api/v1/roles)'),
+  "address": zod.string().describe('User address'),
+  "permissions": zod.array(zod.enum(['users:read', 'users:update', 'users:delete', 'users:assign-role', 'users:set-password', 'roles:read', 'roles:manage', 'billing:read', 'billing:manage']).describe('Permission key')).describe('Effective permissions granted by the user\'s role')
+})
+
@@ -0,0 +1,46 @@
+/**
+ * Generated by orval v7.17.2 🍺
+ * Do not edit manually.
+ * User API
+ * Type-safe API with auto-generated OpenAPI specification
+ * OpenAPI spec version: v1
+ */
+import * as zod from 'zod';
+
+
+/**
+ * Liveness probe - the process is running
+ */
+export const getHealthLiveResponse = zod.object({
+  "status": zod.literal("ok"),
+  "uptimeSeconds": zod.number()
+})
+
+/**
+ * Readiness probe - the database is reachable and migrated, and the server is not shutting down
+ */
+export const getHealthReadyResponse = zod.object({
+  "status": zod.enum(['ready', 'not_ready', 'shutting_down']),
+  "checks": zod.object({
+  "database": zod.object({
+  "status": zod.enum(['up', 'down']),
+  "latencyMs": zod.number().describe('Round trip of the probe query'),
+  "error": zod.string().optional()
+}),
+  "migrations": zod.object({
+  "status": zod.enum(['up-to-date', 'pending', 'unknown', 'error']).describe('\"unknown\" when there is no local migration journal (schema managed with db:push)'),
+  "applied": zod.union([zod.number(),zod.null()]),
+  "available": zod.union([zod.number(),zod.null()]),
+  "pending": zod.union([zod.number(),zod.null()])
+}),
+  "pool": zod.object({
+  "status": zod.enum(['ok', 'saturated']).describe('\"saturated\" when every connection is busy and requests are queueing'),
+  "total": zod.number().describe('Open connections'),
+  "idle": zod.number().describe('Open connections not in use'),
+  "waiting": zod.number().describe('Queries queued for a connection'),
+  "max": zod.number().describe('Pool size limit'),
+  "utilization": zod.number().describe('Share of the pool in use, 0 to 1')
+}).optional().describe('Omitted when the database driver has no connection pool')
+})
+})
+
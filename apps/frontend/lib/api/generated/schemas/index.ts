@@ -1,2 +1,5 @@
-export * from './users/users';
+export * from './health/health';
 export * from './userAPI.schemas';
+export * from './users/users';
+export * from './auth/auth';
+export * from './roles/roles';
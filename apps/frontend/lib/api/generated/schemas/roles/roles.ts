@@ -0,0 +1,71 @@
+/**
+ * Generated by orval v7.17.2 🍺
+ * Do not edit manually.
+ * User API
+ * Type-safe API with auto-generated OpenAPI specification
+ * OpenAPI spec version: v1
+ */
+import * as zod from 'zod';
+
+
+/**
+ * List roles and the permissions each grants (requires roles:read)
+ */
+export const getRolesResponseNameMax = 50;
+
+
+export const getRolesResponseNameRegExp = new RegExp('^[a-z][a-z0-9-]*$');
+
+
+export const getRolesResponseItem = zod.object({
+  "name": zod.string().max(getRolesResponseNameMax).regex(getRolesResponseNameRegExp).describe('Role name'),
+  "description": zod.union([zod.string(),zod.null()]).describe('Role description'),
+  "permissions": zod.array(zod.enum(['users:read', 'users:update', 'users:delete', 'users:assign-role', 'users:set-password', 'roles:read', 'roles:manage', 'billing:read', 'billing:manage']).describe('Permission key')).describe('Permissions granted by the role')
+})
+export const getRolesResponse = zod.array(getRolesResponseItem)
+
+/**
+ * Create a role (requires roles:manage)
+ */
+export const postRolesBodyNameMax = 50;
+
+
+export const postRolesBodyNameRegExp = new RegExp('^[a-z][a-z0-9-]*$');
+
+export const postRolesBodyPermissionsDefault = [];
+
+export const postRolesBody = zod.object({
+  "name": zod.string().max(postRolesBodyNameMax).regex(postRolesBodyNameRegExp).describe('Role name'),
+  "description": zod.string().min(1).optional().describe('Role description'),
+  "permissions": zod.array(zod.enum(['users:read', 'users:update', 'users:delete', 'users:assign-role', 'users:set-password', 'roles:read', 'roles:manage', 'billing:read', 'billing:manage']).describe('Permission key')).default(postRolesBodyPermissionsDefault).describe('Permissions granted by the role')
+})
+
+/**
+ * Replace the permissions granted by a role (requires roles:manage)
+ */
+export const putRolesByNamePermissionsPathNameMax = 50;
+
+
+export const putRolesByNamePermissionsPathNameRegExp = new RegExp('^[a-z][a-z0-9-]*$');
+
+
+export const putRolesByNamePermissionsParams = zod.object({
+  "name": zod.string().max(putRolesByNamePermissionsPathNameMax).regex(putRolesByNamePermissionsPathNameRegExp).describe('Role name')
+})
+
+export const putRolesByNamePermissionsBody = zod.object({
+  "permissions": zod.array(zod.enum(['users:read', 'users:update', 'users:delete', 'users:assign-role', 'users:set-password', 'roles:read', 'roles:manage', 'billing:read', 'billing:manage']).describe('Permission key')).describe('The complete set of permissions the role should grant')
+})
+
+export const putRolesByNamePermissionsResponseNameMax = 50;
+
+
+export const putRolesByNamePermissionsResponseNameRegExp = new RegExp('^[a-z][a-z0-9-]*$');
+
+
+export const putRolesByNamePermissionsResponse = zod.object({
+  "name": zod.string().max(putRolesByNamePermissionsResponseNameMax).regex(putRolesByNamePermissionsResponseNameRegExp).describe('Role name'),
+  "description": zod.union([zod.string(),zod.null()]).describe('Role description'),
+  "permissions": zod.array(zod.enum(['users:read', 'users:update', 'users:delete', 'users:assign-role', 'users:set-password', 'roles:read', 'roles:manage', 'billing:read', 'billing:manage']).describe('Permission key')).describe('Permissions granted by the role')
+})
+
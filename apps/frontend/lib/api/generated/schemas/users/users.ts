@@ -3,35 +3,265 @@
  * Do not edit manually.
  * User API
  * Type-safe API with auto-generated OpenAPI specification
- * OpenAPI spec version: 1.0.0
+ * OpenAPI spec version: v1
  */
 import * as zod from 'zod';
 
 
 /**
- * Create a new user
+ * Create a new user (setting a role other than "user" requires users:assign-role)
  */
+export const postUsersHeaderIdempotencyKeyMax = 255;
+
+
+
+export const postUsersHeader = zod.object({
+  "idempotency-key": zod.string().min(1).max(postUsersHeaderIdempotencyKeyMax).optional().describe('Unique value (e.g. a UUID) identifying this request. Retries with the same key get the first response back instead of repeating the operation')
+})
+
 
 export const postUsersBodyEmailRegExp = new RegExp('^(?!\\.)(?!.*\\.\\.)([A-Za-z0-9_\'+\\-\\.]*)[A-Za-z0-9_+-]@([A-Za-z0-9][A-Za-z0-9\\-]*\\.)+[A-Za-z]{2,}$');
+export const postUsersBodyRoleMax = 50;
+
+
+export const postUsersBodyRoleRegExp = new RegExp('^[a-z][a-z0-9-]*$');
+
+export const postUsersBodyPasswordMin = 12;
+export const postUsersBodyPasswordMax = 128;
+
 
 
 export const postUsersBody = zod.object({
-  "name": zod.string().min(1).describe('User name'),
-  "email": zod.email().regex(postUsersBodyEmailRegExp).describe('User email address')
+  "name": zod.union([zod.string().min(1),zod.null()]).optional().describe('User name'),
+  "email": zod.email().regex(postUsersBodyEmailRegExp).describe('User email address'),
+  "role": zod.string().max(postUsersBodyRoleMax).regex(postUsersBodyRoleRegExp).optional().describe('User role (see GET /api/v1/roles)'),
+  "address": zod.string().min(1).describe('User address'),
+  "password": zod.string().min(postUsersBodyPasswordMin).max(postUsersBodyPasswordMax).optional().describe('Password (12-128 characters, at least one letter and one digit)')
+})
+
+/**
+ * Get a paginated list of users (requires users:read)
+ */
+export const getUsersQueryPageDefault = 1;
+export const getUsersQueryPageMax = 9007199254740991;
+
+export const getUsersQueryPerPageDefault = 20;
+export const getUsersQueryPerPageMax = 100;
+
+export const getUsersQuerySortByDefault = "createdAt";export const getUsersQuerySortOrderDefault = "desc";
+export const getUsersQueryRoleMax = 50;
+
+
+export const getUsersQueryRoleRegExp = new RegExp('^[a-z][a-z0-9-]*$');
+export const getUsersQueryStartDateRegExp = new RegExp('^(?:(?:\\d\\d[2468][048]|\\d\\d[13579][26]|\\d\\d0[48]|[02468][048]00|[13579][26]00)-02-29|\\d{4}-(?:(?:0[13578]|1[02])-(?:0[1-9]|[12]\\d|3[01])|(?:0[469]|11)-(?:0[1-9]|[12]\\d|30)|(?:02)-(?:0[1-9]|1\\d|2[0-8])))$');
+export const getUsersQueryEndDateRegExp = new RegExp('^(?:(?:\\d\\d[2468][048]|\\d\\d[13579][26]|\\d\\d0[48]|[02468][048]00|[13579][26]00)-02-29|\\d{4}-(?:(?:0[13578]|1[02])-(?:0[1-9]|[12]\\d|3[01])|(?:0[469]|11)-(?:0[1-9]|[12]\\d|30)|(?:02)-(?:0[1-9]|1\\d|2[0-8])))$');
+
+
+export const getUsersQueryParams = zod.object({
+  "page": zod.number().max(getUsersQueryPageMax).default(getUsersQueryPageDefault).describe('Page number (1-based)'),
+  "perPage": zod.number().max(getUsersQueryPerPageMax).default(getUsersQueryPerPageDefault).describe('Number of users per page'),
+  "sortBy": zod.enum(['createdAt', 'updatedAt', 'name', 'email']).default(getUsersQuerySortByDefault).describe('Field to sort by'),
+  "sortOrder": zod.enum(['asc', 'desc']).default(getUsersQuerySortOrderDefault).describe('Sort direction'),
+  "search": zod.string().min(1).optional().describe('Case-insensitive match on name or email'),
+  "role": zod.string().max(getUsersQueryRoleMax).regex(getUsersQueryRoleRegExp).optional().describe('Only return users with this role'),
+  "startDate": zod.iso.date().regex(getUsersQueryStartDateRegExp).optional().describe('Only return users created on or after this date (YYYY-MM-DD)'),
+  "endDate": zod.iso.date().regex(getUsersQueryEndDateRegExp).optional().describe('Only return users created on or before this date (YYYY-MM-DD)')
+})
+
+export const getUsersResponseDataItemIdRegExp = new RegExp('^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$');
+export const getUsersResponseDataItemCreatedAtRegExp = new RegExp('^(?:(?:\\d\\d[2468][048]|\\d\\d[13579][26]|\\d\\d0[48]|[02468][048]00|[13579][26]00)-02-29|\\d{4}-(?:(?:0[13578]|1[02])-(?:0[1-9]|[12]\\d|3[01])|(?:0[469]|11)-(?:0[1-9]|[12]\\d|30)|(?:02)-(?:0[1-9]|1\\d|2[0-8])))T(?:(?:[01]\\d|2[0-3]):[0-5]\\d(?::[0-5]\\d(?:\\.\\d+)?)?(?:Z))$');
+export const getUsersResponseDataItemUpdatedAtRegExp = new RegExp('^(?:(?:\\d\\d[2468][048]|\\d\\d[13579][26]|\\d\\d0[48]|[02468][048]00|[13579][26]00)-02-29|\\d{4}-(?:(?:0[13578]|1[02])-(?:0[1-9]|[12]\\d|3[01])|(?:0[469]|11)-(?:0[1-9]|[12]\\d|30)|(?:02)-(?:0[1-9]|1\\d|2[0-8])))T(?:(?:[01]\\d|2[0-3]):[0-5]\\d(?::[0-5]\\d(?:\\.\\d+)?)?(?:Z))$');
+export const getUsersResponseDataItemEmailRegExp = new RegExp('^(?!\\.)(?!.*\\.\\.)([A-Za-z0-9_\'+\\-\\.]*)[A-Za-z0-9_+-]@([A-Za-z0-9][A-Za-z0-9\\-]*\\.)+[A-Za-z]{2,}$');
+export const getUsersResponseDataItemRoleMax = 50;
+
+
+export const getUsersResponseDataItemRoleRegExp = new RegExp('^[a-z][a-z0-9-]*$');
+export const getUsersResponseTotalMin = 0;
+export const getUsersResponseTotalMax = 9007199254740991;
+
+export const getUsersResponsePageMax = 9007199254740991;
+
+export const getUsersResponsePageSizeMax = 9007199254740991;
+
+export const getUsersResponseTotalPagesMin = 0;
+export const getUsersResponseTotalPagesMax = 9007199254740991;
+
+
+
+export const getUsersResponse = zod.object({
+  "data": zod.array(zod.object({
+  "id": zod.uuid().regex(getUsersResponseDataItemIdRegExp).describe('User ID'),
+  "name": zod.union([zod.string(),zod.null()]).describe('User name'),
+  "createdAt": zod.iso.datetime({}).regex(getUsersResponseDataItemCreatedAtRegExp).describe('When the user was created'),
+  "updatedAt": zod.iso.datetime({}).regex(getUsersResponseDataItemUpdatedAtRegExp).describe('When the user was last changed'),
+  "email": zod.email().regex(getUsersResponseDataItemEmailRegExp).describe('User email address'),
+  "role": zod.string().max(getUsersResponseDataItemRoleMax).regex(getUsersResponseDataItemRoleRegExp).describe('User role (see GET /api/v1/roles)'),
+  "address": zod.string().describe('User address')
+})),
+  "total": zod.number().min(getUsersResponseTotalMin).max(getUsersResponseTotalMax).describe('Total number of matching items'),
+  "page": zod.number().max(getUsersResponsePageMax).describe('Current page number'),
+  "pageSize": zod.number().max(getUsersResponsePageSizeMax).describe('Number of items per page'),
+  "totalPages": zod.number().min(getUsersResponseTotalPagesMin).max(getUsersResponseTotalPagesMax).describe('Total number of pages')
+})
+
+/**
+ * Get users newest first using an opaque cursor (for infinite scrolling, requires users:read)
+ */
+
+export const getUsersCursorQueryRoleMax = 50;
+
+
+export const getUsersCursorQueryRoleRegExp = new RegExp('^[a-z][a-z0-9-]*$');
+export const getUsersCursorQueryStartDateRegExp = new RegExp('^(?:(?:\\d\\d[2468][048]|\\d\\d[13579][26]|\\d\\d0[48]|[02468][048]00|[13579][26]00)-02-29|\\d{4}-(?:(?:0[13578]|1[02])-(?:0[1-9]|[12]\\d|3[01])|(?:0[469]|11)-(?:0[1-9]|[12]\\d|30)|(?:02)-(?:0[1-9]|1\\d|2[0-8])))$');
+export const getUsersCursorQueryEndDateRegExp = new RegExp('^(?:(?:\\d\\d[2468][048]|\\d\\d[13579][26]|\\d\\d0[48]|[02468][048]00|[13579][26]00)-02-29|\\d{4}-(?:(?:0[13578]|1[02])-(?:0[1-9]|[12]\\d|3[01])|(?:0[469]|11)-(?:0[1-9]|[12]\\d|30)|(?:02)-(?:0[1-9]|1\\d|2[0-8])))$');
+
+export const getUsersCursorQueryLimitDefault = 20;
+export const getUsersCursorQueryLimitMax = 100;
+
+
+
+export const getUsersCursorQueryParams = zod.object({
+  "search": zod.string().min(1).optional().describe('Case-insensitive match on name or email'),
+  "role": zod.string().max(getUsersCursorQueryRoleMax).regex(getUsersCursorQueryRoleRegExp).optional().describe('Only return users with this role'),
+  "startDate": zod.iso.date().regex(getUsersCursorQueryStartDateRegExp).optional().describe('Only return users created on or after this date (YYYY-MM-DD)'),
+  "endDate": zod.iso.date().regex(getUsersCursorQueryEndDateRegExp).optional().describe('Only return users created on or before this date (YYYY-MM-DD)'),
+  "cursor": zod.string().min(1).optional().describe('Opaque cursor returned as `nextCursor` by the previous page'),
+  "limit": zod.number().max(getUsersCursorQueryLimitMax).default(getUsersCursorQueryLimitDefault).describe('Maximum number of users to return')
+})
+
+export const getUsersCursorResponseDataItemIdRegExp = new RegExp('^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$');
+export const getUsersCursorResponseDataItemCreatedAtRegExp = new RegExp('^(?:(?:\\d\\d[2468][048]|\\d\\d[13579][26]|\\d\\d0[48]|[02468][048]00|[13579][26]00)-02-29|\\d{4}-(?:(?:0[13578]|1[02])-(?:0[1-9]|[12]\\d|3[01])|(?:0[469]|11)-(?:0[1-9]|[12]\\d|30)|(?:02)-(?:0[1-9]|1\\d|2[0-8])))T(?:(?:[01]\\d|2[0-3]):[0-5]\\d(?::[0-5]\\d(?:\\.\\d+)?)?(?:Z))$');
+export const getUsersCursorResponseDataItemUpdatedAtRegExp = new RegExp('^(?:(?:\\d\\d[2468][048]|\\d\\d[13579][26]|\\d\\d0[48]|[02468][048]00|[13579][26]00)-02-29|\\d{4}-(?:(?:0[13578]|1[02])-(?:0[1-9]|[12]\\d|3[01])|(?:0[469]|11)-(?:0[1-9]|[12]\\d|30)|(?:02)-(?:0[1-9]|1\\d|2[0-8])))T(?:(?:[01]\\d|2[0-3]):[0-5]\\d(?::[0-5]\\d(?:\\.\\d+)?)?(?:Z))$');
+export const getUsersCursorResponseDataItemEmailRegExp = new RegExp('^(?!\\.)(?!.*\\.\\.)([A-Za-z0-9_\'+\\-\\.]*)[A-Za-z0-9_+-]@([A-Za-z0-9][A-Za-z0-9\\-]*\\.)+[A-Za-z]{2,}$');
+export const getUsersCursorResponseDataItemRoleMax = 50;
+
+
+export const getUsersCursorResponseDataItemRoleRegExp = new RegExp('^[a-z][a-z0-9-]*$');
+
+
+export const getUsersCursorResponse = zod.object({
+  "data": zod.array(zod.object({
+  "id": zod.uuid().regex(getUsersCursorResponseDataItemIdRegExp).describe('User ID'),
+  "name": zod.union([zod.string(),zod.null()]).describe('User name'),
+  "createdAt": zod.iso.datetime({}).regex(getUsersCursorResponseDataItemCreatedAtRegExp).describe('When the user was created'),
+  "updatedAt": zod.iso.datetime({}).regex(getUsersCursorResponseDataItemUpdatedAtRegExp).describe('When the user was last changed'),
+  "email": zod.email().regex(getUsersCursorResponseDataItemEmailRegExp).describe('User email address'),
+  "role": zod.string().max(getUsersCursorResponseDataItemRoleMax).regex(getUsersCursorResponseDataItemRoleRegExp).describe('User role (see GET /api/v1/roles)'),
+  "address": zod.string().describe('User address')
+})),
+  "nextCursor": zod.union([zod.string(),zod.null()]).describe('Cursor for the next page, or null when there are no more items')
 })
 
 /**
- * Get all users
+ * Get a user by ID (requires users:read, or the user themselves)
  */
-export const getUsersResponseIdMax = 9007199254740991;
+export const getUsersByIdPathIdRegExp = new RegExp('^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$');
+
+
+export const getUsersByIdParams = zod.object({
+  "id": zod.uuid().regex(getUsersByIdPathIdRegExp).describe('User ID')
+})
+
+export const getUsersByIdResponseIdRegExp = new RegExp('^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$');
+export const getUsersByIdResponseCreatedAtRegExp = new RegExp('^(?:(?:\\d\\d[2468][048]|\\d\\d[13579][26]|\\d\\d0[48]|[02468][048]00|[13579][26]00)-02-29|\\d{4}-(?:(?:0[13578]|1[02])-(?:0[1-9]|[12]\\d|3[01])|(?:0[469]|11)-(?:0[1-9]|[12]\\d|30)|(?:02)-(?:0[1-9]|1\\d|2[0-8])))T(?:(?:[01]\\d|2[0-3]):[0-5]\\d(?::[0-5]\\d(?:\\.\\d+)?)?(?:Z))$');
+export const getUsersByIdResponseUpdatedAtRegExp = new RegExp('^(?:(?:\\d\\d[2468][048]|\\d\\d[13579][26]|\\d\\d0[48]|[02468][048]00|[13579][26]00)-02-29|\\d{4}-(?:(?:0[13578]|1[02])-(?:0[1-9]|[12]\\d|3[01])|(?:0[469]|11)-(?:0[1-9]|[12]\\d|30)|(?:02)-(?:0[1-9]|1\\d|2[0-8])))T(?:(?:[01]\\d|2[0-3]):[0-5]\\d(?::[0-5]\\d(?:\\.\\d+)?)?(?:Z))$');
+export const getUsersByIdResponseEmailRegExp = new RegExp('^(?!\\.)(?!.*\\.\\.)([A-Za-z0-9_\'+\\-\\.]*)[A-Za-z0-9_+-]@([A-Za-z0-9][A-Za-z0-9\\-]*\\.)+[A-Za-z]{2,}$');
+export const getUsersByIdResponseRoleMax = 50;
+
+
+export const getUsersByIdResponseRoleRegExp = new RegExp('^[a-z][a-z0-9-]*$');
+
+
+export const getUsersByIdResponse = zod.object({
+  "id": zod.uuid().regex(getUsersByIdResponseIdRegExp).describe('User ID'),
+  "name": zod.union([zod.string(),zod.null()]).describe('User name'),
+  "createdAt": zod.iso.datetime({}).regex(getUsersByIdResponseCreatedAtRegExp).describe('When the user was created'),
+  "updatedAt": zod.iso.datetime({}).regex(getUsersByIdResponseUpdatedAtRegExp).describe('When the user was last changed'),
+  "email": zod.email().regex(getUsersByIdResponseEmailRegExp).describe('User email address'),
+  "role": zod.string().max(getUsersByIdResponseRoleMax).regex(getUsersByIdResponseRoleRegExp).describe('User role (see GET /api/v1/roles)'),
+  "address": zod.string().describe('User address')
+})
+
+/**
+ * Update a user (requires users:update, or the user themselves; changing a role requires users:assign-role)
+ */
+export const patchUsersByIdPathIdRegExp = new RegExp('^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$');
+
+
+export const patchUsersByIdParams = zod.object({
+  "id": zod.uuid().regex(patchUsersByIdPathIdRegExp).describe('User ID')
+})
+
+export const patchUsersByIdHeader = zod.object({
+  "if-match": zod.string().optional().describe('ETag from a previous read. The request only applies if the resource has not changed since; otherwise it fails with 412')
+})
+
+
+export const patchUsersByIdBodyEmailRegExp = new RegExp('^(?!\\.)(?!.*\\.\\.)([A-Za-z0-9_\'+\\-\\.]*)[A-Za-z0-9_+-]@([A-Za-z0-9][A-Za-z0-9\\-]*\\.)+[A-Za-z]{2,}$');
+export const patchUsersByIdBodyRoleMax = 50;
+
+
+export const patchUsersByIdBodyRoleRegExp = new RegExp('^[a-z][a-z0-9-]*$');
+
+
+
+export const patchUsersByIdBody = zod.object({
+  "name": zod.union([zod.string().min(1),zod.null()]).optional().describe('User name'),
+  "email": zod.email().regex(patchUsersByIdBodyEmailRegExp).optional().describe('User email address'),
+  "role": zod.string().max(patchUsersByIdBodyRoleMax).regex(patchUsersByIdBodyRoleRegExp).optional().describe('User role (see GET /api/v1/roles)'),
+  "address": zod.string().min(1).optional().describe('User address')
+})
+
+export const patchUsersByIdResponseIdRegExp = new RegExp('^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$');
+export const patchUsersByIdResponseCreatedAtRegExp = new RegExp('^(?:(?:\\d\\d[2468][048]|\\d\\d[13579][26]|\\d\\d0[48]|[02468][048]00|[13579][26]00)-02-29|\\d{4}-(?:(?:0[13578]|1[02])-(?:0[1-9]|[12]\\d|3[01])|(?:0[469]|11)-(?:0[1-9]|[12]\\d|30)|(?:02)-(?:0[1-9]|1\\d|2[0-8])))T(?:(?:[01]\\d|2[0-3]):[0-5]\\d(?::[0-5]\\d(?:\\.\\d+)?)?(?:Z))$');
+export const patchUsersByIdResponseUpdatedAtRegExp = new RegExp('^(?:(?:\\d\\d[2468][048]|\\d\\d[13579][26]|\\d\\d0[48]|[02468][048]00|[13579][26]00)-02-29|\\d{4}-(?:(?:0[13578]|1[02])-(?:0[1-9]|[12]\\d|3[01])|(?:0[469]|11)-(?:0[1-9]|[12]\\d|30)|(?:02)-(?:0[1-9]|1\\d|2[0-8])))T(?:(?:[01]\\d|2[0-3]):[0-5]\\d(?::[0-5]\\d(?:\\.\\d+)?)?(?:Z))$');
+export const patchUsersByIdResponseEmailRegExp = new RegExp('^(?!\\.)(?!.*\\.\\.)([A-Za-z0-9_\'+\\-\\.]*)[A-Za-z0-9_+-]@([A-Za-z0-9][A-Za-z0-9\\-]*\\.)+[A-Za-z]{2,}$');
+export const patchUsersByIdResponseRoleMax = 50;
+
+
+export const patchUsersByIdResponseRoleRegExp = new RegExp('^[a-z][a-z0-9-]*$');
+
+
+export const patchUsersByIdResponse = zod.object({
+  "id": zod.uuid().regex(patchUsersByIdResponseIdRegExp).describe('User ID'),
+  "name": zod.union([zod.string(),zod.null()]).describe('User name'),
+  "createdAt": zod.iso.datetime({}).regex(patchUsersByIdResponseCreatedAtRegExp).describe('When the user was created'),
+  "updatedAt": zod.iso.datetime({}).regex(patchUsersByIdResponseUpdatedAtRegExp).describe('When the user was last changed'),
+  "email": zod.email().regex(patchUsersByIdResponseEmailRegExp).describe('User email address'),
+  "role": zod.string().max(patchUsersByIdResponseRoleMax).regex(patchUsersByIdResponseRoleRegExp).describe('User role (see GET /api/v1/roles)'),
+  "address": zod.string().describe('User address')
+})
+
+/**
+ * Delete a user (requires users:delete)
+ */
+export const deleteUsersByIdPathIdRegExp = new RegExp('^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$');
+
+
+export const deleteUsersByIdParams = zod.object({
+  "id": zod.uuid().regex(deleteUsersByIdPathIdRegExp).describe('User ID')
+})
+
+export const deleteUsersByIdHeader = zod.object({
+  "if-match": zod.string().optional().describe('ETag from a previous read. The request only applies if the resource has not changed since; otherwise it fails with 412')
+})
+
+/**
+ * Set or reset a user's password and sign out all their sessions (requires users:set-password)
+ */
+export const putUsersByIdPasswordPathIdRegExp = new RegExp('^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$');
+
+
+export const putUsersByIdPasswordParams = zod.object({
+  "id": zod.uuid().regex(putUsersByIdPasswordPathIdRegExp).describe('User ID')
+})
+
+export const putUsersByIdPasswordBodyPasswordMin = 12;
+export const putUsersByIdPasswordBodyPasswordMax = 128;
 
-export const getUsersResponseEmailRegExp = new RegExp('^(?!\\.)(?!.*\\.\\.)([A-Za-z0-9_\'+\\-\\.]*)[A-Za-z0-9_+-]@([A-Za-z0-9][A-Za-z0-9\\-]*\\.)+[A-Za-z]{2,}$');
 
 
-export const getUsersResponseItem = zod.object({
-  "id": zod.number().max(getUsersResponseIdMax).describe('User ID'),
-  "name": zod.string().describe('User name'),
-  "email": zod.email().regex(getUsersResponseEmailRegExp).describe('User email address')
+export const putUsersByIdPasswordBody = zod.object({
+  "password": zod.string().min(putUsersByIdPasswordBodyPasswordMin).max(putUsersByIdPasswordBodyPasswordMax).describe('Password (12-128 characters, at least one letter and one digit)')
 })
-export const getUsersResponse = zod.array(getUsersResponseItem)
 
@@ -0,0 +1,21 @@
+/**
+ * Generated by orval v7.17.2 🍺
+ * Do not edit manually.
+ * User API
+ * Type-safe API with auto-generated OpenAPI specification
+ * OpenAPI spec version: v1
+ */
+import type { ErrorResponseErrorsItem } from './errorResponseErrorsItem';
+
+export type ErrorResponse = {
+  /** HTTP status text */
+  error: string;
+  /** Machine-readable error code */
+  code: string;
+  /** Error message */
+  message: string;
+  /** ID of the failed request, also sent in the X-Request-ID header */
+  requestId: string;
+  /** Field-level problems, present for validation errors */
+  errors?: ErrorResponseErrorsItem[];
+};
@@ -0,0 +1,16 @@
+/**
+ * Generated by orval v7.17.2 🍺
+ * Do not edit manually.
+ * User API
+ * Type-safe API with auto-generated OpenAPI specification
+ * OpenAPI spec version: v1
+ */
+
+export type ErrorResponseErrorsItem = {
+  /** Dotted path of the invalid field */
+  field: string;
+  /** What is wrong with the field */
+  message: string;
+  /** Validation rule that failed */
+  code?: string;
+};
@@ -3,12 +3,10 @@
  * Do not edit manually.
  * User API
  * Type-safe API with auto-generated OpenAPI specification
- * OpenAPI spec version: 1.0.0
+ * OpenAPI spec version: v1
  */
 
-export type PostUsers400 = {
-  /** Error type */
-  error: string;
-  /** Error message */
-  message: string;
+export type GetHealthLive200 = {
+  status: 'ok';
+  uptimeSeconds: number;
 };
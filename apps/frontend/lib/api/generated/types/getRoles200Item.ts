@@ -0,0 +1,22 @@
+/**
+ * Generated by orval v7.17.2 🍺
+ * Do not edit manually.
+ * User API
+ * Type-safe API with auto-generated OpenAPI specification
+ * OpenAPI spec version: v1
+ */
+import type { GetRoles200ItemDescription } from './getRoles200ItemDescription';
+import type { Permission } from './permission';
+
+export type GetRoles200Item = {
+  /**
+   * Role name
+   * @maxLength 50
+   * @pattern ^[a-z][a-z0-9-]*$
+   */
+  name: string;
+  /** Role description */
+  description: GetRoles200ItemDescription;
+  /** Permissions granted by the role */
+  permissions: Permission[];
+};
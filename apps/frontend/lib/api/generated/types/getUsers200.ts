@@ -0,0 +1,34 @@
+/**
+ * Generated by orval v7.17.2 🍺
+ * Do not edit manually.
+ * User API
+ * Type-safe API with auto-generated OpenAPI specification
+ * OpenAPI spec version: v1
+ */
+import type { GetUsers200DataItem } from './getUsers200DataItem';
+
+export type GetUsers200 = {
+  data: GetUsers200DataItem[];
+  /**
+   * Total number of matching items
+   * @minimum 0
+   * @maximum 9007199254740991
+   */
+  total: number;
+  /**
+   * Current page number
+   * @maximum 9007199254740991
+   */
+  page: number;
+  /**
+   * Number of items per page
+   * @maximum 9007199254740991
+   */
+  pageSize: number;
+  /**
+   * Total number of pages
+   * @minimum 0
+   * @maximum 9007199254740991
+   */
+  totalPages: number;
+};
@@ -0,0 +1,15 @@
+/**
+ * Generated by orval v7.17.2 🍺
+ * Do not edit manually.
+ * User API
+ * Type-safe API with auto-generated OpenAPI specification
+ * OpenAPI spec version: v1
+ */
+import type { GetUsersCursor200DataItem } from './getUsersCursor200DataItem';
+import type { GetUsersCursor200NextCursor } from './getUsersCursor200NextCursor';
+
+export type GetUsersCursor200 = {
+  data: GetUsersCursor200DataItem[];
+  /** Cursor for the next page, or null when there are no more items */
+  nextCursor: GetUsersCursor200NextCursor;
+};
@@ -0,0 +1,41 @@
+/**
+ * Generated by orval v7.17.2 🍺
+ * Do not edit manually.
+ * User API
+ * Type-safe API with auto-generated OpenAPI specification
+ * OpenAPI spec version: v1
+ */
+
+export type GetUsersCursorParams = {
+/**
+ * Case-insensitive match on name or email
+ * @minLength 1
+ */
+search?: string;
+/**
+ * Only return users with this role
+ * @maxLength 50
+ * @pattern ^[a-z][a-z0-9-]*$
+ */
+role?: string;
+/**
+ * Only return users created on or after this date (YYYY-MM-DD)
+ * @pattern ^(?:(?:\d\d[2468][048]|\d\d[13579][26]|\d\d0[48]|[02468][048]00|[13579][26]00)-02-29|\d{4}-(?:(?:0[13578]|1[02])-(?:0[1-9]|[12]\d|3[01])|(?:0[469]|11)-(?:0[1-9]|[12]\d|30)|(?:02)-(?:0[1-9]|1\d|2[0-8])))$
+ */
+startDate?: string;
+/**
+ * Only return users created on or before this date (YYYY-MM-DD)
+ * @pattern ^(?:(?:\d\d[2468][048]|\d\d[13579][26]|\d\d0[48]|[02468][048]00|[13579][26]00)-02-29|\d{4}-(?:(?:0[13578]|1[02])-(?:0[1-9]|[12]\d|3[01])|(?:0[469]|11)-(?:0[1-9]|[12]\d|30)|(?:02)-(?:0[1-9]|1\d|2[0-8])))$
+ */
+endDate?: string;
+/**
+ * Opaque cursor returned as `nextCursor` by the previous page
+ * @minLength 1
+ */
+cursor?: string;
+/**
+ * Maximum number of users to return
+ * @maximum 100
+ */
+limit?: number;
+};
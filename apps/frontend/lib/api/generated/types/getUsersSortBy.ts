@@ -0,0 +1,18 @@
+/**
+ * Generated by orval v7.17.2 🍺
+ * Do not edit manually.
+ * User API
+ * Type-safe API with auto-generated OpenAPI specification
+ * OpenAPI spec version: v1
+ */
+
+export type GetUsersSortBy = typeof GetUsersSortBy[keyof typeof GetUsersSortBy];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const GetUsersSortBy = {
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  name: 'name',
+  email: 'email',
+} as const;
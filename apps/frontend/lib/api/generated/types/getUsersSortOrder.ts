@@ -0,0 +1,16 @@
+/**
+ * Generated by orval v7.17.2 🍺
+ * Do not edit manually.
+ * User API
+ * Type-safe API with auto-generated OpenAPI specification
+ * OpenAPI spec version: v1
+ */
+
+export type GetUsersSortOrder = typeof GetUsersSortOrder[keyof typeof GetUsersSortOrder];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const GetUsersSortOrder = {
+  asc: 'asc',
+  desc: 'desc',
+} as const;
@@ -3,10 +3,60 @@
  * Do not edit manually.
  * User API
  * Type-safe API with auto-generated OpenAPI specification
- * OpenAPI spec version: 1.0.0
+ * OpenAPI spec version: v1
  */
 
-export * from './getUsers200Item';
+export * from './errorResponse';
+export * from './errorResponseErrorsItem';
+export * from './getAuthMe200';
+export * from './getAuthMe200Name';
+export * from './getHealthLive200';
+export * from './getRoles200Item';
+export * from './getRoles200ItemDescription';
+export * from './getUsers200';
+export * from './getUsers200DataItem';
+export * from './getUsers200DataItemName';
+export * from './getUsersById200';
+export * from './getUsersById200Name';
+export * from './getUsersCursor200';
+export * from './getUsersCursor200DataItem';
+export * from './getUsersCursor200DataItemName';
+export * from './getUsersCursor200NextCursor';
+export * from './getUsersCursorParams';
+export * from './getUsersParams';
+export * from './getUsersSortBy';
+export * from './getUsersSortOrder';
+export * from './patchUsersById200';
+export * from './patchUsersById200Name';
+export * from './patchUsersByIdBody';
+export * from './patchUsersByIdBodyName';
+export * from './permission';
+export * from './postAuthLogin200';
+export * from './postAuthLoginBody';
+export * from './postAuthLogoutBody';
+export * from './postAuthPasswordChangeBody';
+export * from './postAuthRefresh200';
+export * from './postAuthRefreshBody';
+export * from './postRoles201';
+export * from './postRoles201Description';
+export * from './postRolesBody';
 export * from './postUsers201';
-export * from './postUsers400';
-export * from './postUsersBody';
\ No newline at end of file
+export * from './postUsers201Name';
+export * from './postUsersBody';
+export * from './postUsersBodyName';
+export * from './putRolesByNamePermissions200';
+export * from './putRolesByNamePermissions200Description';
+export * from './putRolesByNamePermissionsBody';
+export * from './putUsersByIdPasswordBody';
+export * from './readinessResponse';
+export * from './readinessResponseChecks';
+export * from './readinessResponseChecksDatabase';
+export * from './readinessResponseChecksDatabaseStatus';
+export * from './readinessResponseChecksMigrations';
+export * from './readinessResponseChecksMigrationsApplied';
+export * from './readinessResponseChecksMigrationsAvailable';
+export * from './readinessResponseChecksMigrationsPending';
+export * from './readinessResponseChecksMigrationsStatus';
+export * from './readinessResponseChecksPool';
+export * from './readinessResponseChecksPoolStatus';
+export * from './readinessResponseStatus';
\ No newline at end of file
@@ -0,0 +1,29 @@
+/**
+ * Generated by orval v7.17.2 🍺
+ * Do not edit manually.
+ * User API
+ * Type-safe API with auto-generated OpenAPI specification
+ * OpenAPI spec version: v1
+ */
+import type { PatchUsersByIdBodyName } from './patchUsersByIdBodyName';
+
+export type PatchUsersByIdBody = {
+  /** User name */
+  name?: PatchUsersByIdBodyName;
+  /**
+   * User email address
+   * @pattern ^(?!\.)(?!.*\.\.)([A-Za-z0-9_'+\-\.]*)[A-Za-z0-9_+-]@([A-Za-z0-9][A-Za-z0-9\-]*\.)+[A-Za-z]{2,}$
+   */
+  email?: string;
+  /**
+   * User role (see GET /api/v1/roles)
+   * @maxLength 50
+   * @pattern ^[a-z][a-z0-9-]*$
+   */
+  role?: string;
+  /**
+   * User address
+   * @minLength 1
+   */
+  address?: string;
+};
@@ -0,0 +1,26 @@
+/**
+ * Generated by orval v7.17.2 🍺
+ * Do not edit manually.
+ * User API
+ * Type-safe API with auto-generated OpenAPI specification
+ * OpenAPI spec version: v1
+ */
+
+/**
+ * Permission key
+ */
+export type Permission = typeof Permission[keyof typeof Permission];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const Permission = {
+  'users:read': 'users:read',
+  'users:update': 'users:update',
+  'users:delete': 'users:delete',
+  'users:assign-role': 'users:assign-role',
+  'users:set-password': 'users:set-password',
+  'roles:read': 'roles:read',
+  'roles:manage': 'roles:manage',
+  'billing:read': 'billing:read',
+  'billing:manage': 'billing:manage',
+} as const;
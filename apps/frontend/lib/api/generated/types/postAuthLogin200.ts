@@ -0,0 +1,23 @@
+/**
+ * Generated by orval v7.17.2 🍺
+ * Do not edit manually.
+ * User API
+ * Type-safe API with auto-generated OpenAPI specification
+ * OpenAPI spec version: v1
+ */
+
+export type PostAuthLogin200 = {
+  /** Signed JWT access token */
+  accessToken: string;
+  /** Token type for the Authorization header */
+  tokenType: 'Bearer';
+  /** Access token lifetime */
+  expiresIn: string;
+  /** Single-use refresh token for POST /api/v1/auth/refresh */
+  refreshToken: string;
+  /**
+   * When the refresh token expires
+   * @pattern ^(?:(?:\d\d[2468][048]|\d\d[13579][26]|\d\d0[48]|[02468][048]00|[13579][26]00)-02-29|\d{4}-(?:(?:0[13578]|1[02])-(?:0[1-9]|[12]\d|3[01])|(?:0[469]|11)-(?:0[1-9]|[12]\d|30)|(?:02)-(?:0[1-9]|1\d|2[0-8])))T(?:(?:[01]\d|2[0-3]):[0-5]\d(?::[0-5]\d(?:\.\d+)?)?(?:Z))$
+   */
+  refreshTokenExpiresAt: string;
+};
@@ -3,20 +3,18 @@
  * Do not edit manually.
  * User API
  * Type-safe API with auto-generated OpenAPI specification
- * OpenAPI spec version: 1.0.0
+ * OpenAPI spec version: v1
  */
 
-export type GetUsers200Item = {
-  /**
-   * User ID
-   * @maximum 9007199254740991
-   */
-  id: number;
-  /** User name */
-  name: string;
+export type PostAuthLoginBody = {
   /**
    * User email address
    * @pattern ^(?!\.)(?!.*\.\.)([A-Za-z0-9_'+\-\.]*)[A-Za-z0-9_+-]@([A-Za-z0-9][A-Za-z0-9\-]*\.)+[A-Za-z]{2,}$
    */
   email: string;
+  /**
+   * User password
+   * @minLength 1
+   */
+  password: string;
 };
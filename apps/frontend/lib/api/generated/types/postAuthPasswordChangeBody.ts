@@ -0,0 +1,21 @@
+/**
+ * Generated by orval v7.17.2 🍺
+ * Do not edit manually.
+ * User API
+ * Type-safe API with auto-generated OpenAPI specification
+ * OpenAPI spec version: v1
+ */
+
+export type PostAuthPasswordChangeBody = {
+  /**
+   * Current password
+   * @minLength 1
+   */
+  currentPassword: string;
+  /**
+   * Password (12-128 characters, at least one letter and one digit)
+   * @minLength 12
+   * @maxLength 128
+   */
+  newPassword: string;
+};
@@ -0,0 +1,15 @@
+/**
+ * Generated by orval v7.17.2 🍺
+ * Do not edit manually.
+ * User API
+ * Type-safe API with auto-generated OpenAPI specification
+ * OpenAPI spec version: v1
+ */
+
+export type PostAuthRefreshBody = {
+  /**
+   * Refresh token from the last login or refresh
+   * @minLength 1
+   */
+  refreshToken: string;
+};
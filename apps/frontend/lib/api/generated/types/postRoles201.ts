@@ -0,0 +1,22 @@
+/**
+ * Generated by orval v7.17.2 🍺
+ * Do not edit manually.
+ * User API
+ * Type-safe API with auto-generated OpenAPI specification
+ * OpenAPI spec version: v1
+ */
+import type { PostRoles201Description } from './postRoles201Description';
+import type { Permission } from './permission';
+
+export type PostRoles201 = {
+  /**
+   * Role name
+   * @maxLength 50
+   * @pattern ^[a-z][a-z0-9-]*$
+   */
+  name: string;
+  /** Role description */
+  description: PostRoles201Description;
+  /** Permissions granted by the role */
+  permissions: Permission[];
+};
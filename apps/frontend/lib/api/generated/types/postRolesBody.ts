@@ -0,0 +1,24 @@
+/**
+ * Generated by orval v7.17.2 🍺
+ * Do not edit manually.
+ * User API
+ * Type-safe API with auto-generated OpenAPI specification
+ * OpenAPI spec version: v1
+ */
+import type { Permission } from './permission';
+
+export type PostRolesBody = {
+  /**
+   * Role name
+   * @maxLength 50
+   * @pattern ^[a-z][a-z0-9-]*$
+   */
+  name: string;
+  /**
+   * Role description
+   * @minLength 1
+   */
+  description?: string;
+  /** Permissions granted by the role */
+  permissions?: Permission[];
+};
@@ -3,18 +3,33 @@
  * Do not edit manually.
  * User API
  * Type-safe API with auto-generated OpenAPI specification
- * OpenAPI spec version: 1.0.0
+ * OpenAPI spec version: v1
  */
+import type { PostUsersBodyName } from './postUsersBodyName';
 
 export type PostUsersBody = {
-  /**
-   * User name
-   * @minLength 1
-   */
-  name: string;
+  /** User name */
+  name?: PostUsersBodyName;
   /**
    * User email address
    * @pattern ^(?!\.)(?!.*\.\.)([A-Za-z0-9_'+\-\.]*)[A-Za-z0-9_+-]@([A-Za-z0-9][A-Za-z0-9\-]*\.)+[A-Za-z]{2,}$
    */
   email: string;
+  /**
+   * User role (see GET /api/v1/roles)
+   * @maxLength 50
+   * @pattern ^[a-z][a-z0-9-]*$
+   */
+  role?: string;
+  /**
+   * User address
+   * @minLength 1
+   */
+  address: string;
+  /**
+   * Password (12-128 characters, at least one letter and one digit)
+   * @minLength 12
+   * @maxLength 128
+   */
+  password?: string;
 };
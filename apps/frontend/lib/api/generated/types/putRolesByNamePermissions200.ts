@@ -0,0 +1,22 @@
+/**
+ * Generated by orval v7.17.2 🍺
+ * Do not edit manually.
+ * User API
+ * Type-safe API with auto-generated OpenAPI specification
+ * OpenAPI spec version: v1
+ */
+import type { PutRolesByNamePermissions200Description } from './putRolesByNamePermissions200Description';
+import type { Permission } from './permission';
+
+export type PutRolesByNamePermissions200 = {
+  /**
+   * Role name
+   * @maxLength 50
+   * @pattern ^[a-z][a-z0-9-]*$
+   */
+  name: string;
+  /** Role description */
+  description: PutRolesByNamePermissions200Description;
+  /** Permissions granted by the role */
+  permissions: Permission[];
+};
@@ -0,0 +1,13 @@
+/**
+ * Generated by orval v7.17.2 🍺
+ * Do not edit manually.
+ * User API
+ * Type-safe API with auto-generated OpenAPI specification
+ * OpenAPI spec version: v1
+ */
+import type { Permission } from './permission';
+
+export type PutRolesByNamePermissionsBody = {
+  /** The complete set of permissions the role should grant */
+  permissions: Permission[];
+};
@@ -0,0 +1,16 @@
+/**
+ * Generated by orval v7.17.2 🍺
+ * Do not edit manually.
+ * User API
+ * Type-safe API with auto-generated OpenAPI specification
+ * OpenAPI spec version: v1
+ */
+
+export type PutUsersByIdPasswordBody = {
+  /**
+   * Password (12-128 characters, at least one letter and one digit)
+   * @minLength 12
+   * @maxLength 128
+   */
+  password: string;
+};
@@ -0,0 +1,14 @@
+/**
+ * Generated by orval v7.17.2 🍺
+ * Do not edit manually.
+ * User API
+ * Type-safe API with auto-generated OpenAPI specification
+ * OpenAPI spec version: v1
+ */
+import type { ReadinessResponseStatus } from './readinessResponseStatus';
+import type { ReadinessResponseChecks } from './readinessResponseChecks';
+
+export type ReadinessResponse = {
+  status: ReadinessResponseStatus;
+  checks: ReadinessResponseChecks;
+};
@@ -0,0 +1,17 @@
+/**
+ * Generated by orval v7.17.2 🍺
+ * Do not edit manually.
+ * User API
+ * Type-safe API with auto-generated OpenAPI specification
+ * OpenAPI spec version: v1
+ */
+import type { ReadinessResponseChecksDatabase } from './readinessResponseChecksDatabase';
+import type { ReadinessResponseChecksMigrations } from './readinessResponseChecksMigrations';
+import type { ReadinessResponseChecksPool } from './readinessResponseChecksPool';
+
+export type ReadinessResponseChecks = {
+  database: ReadinessResponseChecksDatabase;
+  migrations: ReadinessResponseChecksMigrations;
+  /** Omitted when the database driver has no connection pool */
+  pool?: ReadinessResponseChecksPool;
+};
@@ -0,0 +1,15 @@
+/**
+ * Generated by orval v7.17.2 🍺
+ * Do not edit manually.
+ * User API
+ * Type-safe API with auto-generated OpenAPI specification
+ * OpenAPI spec version: v1
+ */
+import type { ReadinessResponseChecksDatabaseStatus } from './readinessResponseChecksDatabaseStatus';
+
+export type ReadinessResponseChecksDatabase = {
+  status: ReadinessResponseChecksDatabaseStatus;
+  /** Round trip of the probe query */
+  latencyMs: number;
+  error?: string;
+};
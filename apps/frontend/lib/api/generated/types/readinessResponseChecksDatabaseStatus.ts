@@ -0,0 +1,16 @@
+/**
+ * Generated by orval v7.17.2 🍺
+ * Do not edit manually.
+ * User API
+ * Type-safe API with auto-generated OpenAPI specification
+ * OpenAPI spec version: v1
+ */
+
+export type ReadinessResponseChecksDatabaseStatus = typeof ReadinessResponseChecksDatabaseStatus[keyof typeof ReadinessResponseChecksDatabaseStatus];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const ReadinessResponseChecksDatabaseStatus = {
+  up: 'up',
+  down: 'down',
+} as const;
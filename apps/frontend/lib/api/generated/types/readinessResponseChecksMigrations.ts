@@ -0,0 +1,19 @@
+/**
+ * Generated by orval v7.17.2 🍺
+ * Do not edit manually.
+ * User API
+ * Type-safe API with auto-generated OpenAPI specification
+ * OpenAPI spec version: v1
+ */
+import type { ReadinessResponseChecksMigrationsStatus } from './readinessResponseChecksMigrationsStatus';
+import type { ReadinessResponseChecksMigrationsApplied } from './readinessResponseChecksMigrationsApplied';
+import type { ReadinessResponseChecksMigrationsAvailable } from './readinessResponseChecksMigrationsAvailable';
+import type { ReadinessResponseChecksMigrationsPending } from './readinessResponseChecksMigrationsPending';
+
+export type ReadinessResponseChecksMigrations = {
+  /** "unknown" when there is no local migration journal (schema managed with db:push) */
+  status: ReadinessResponseChecksMigrationsStatus;
+  applied: ReadinessResponseChecksMigrationsApplied;
+  available: ReadinessResponseChecksMigrationsAvailable;
+  pending: ReadinessResponseChecksMigrationsPending;
+};
@@ -0,0 +1,21 @@
+/**
+ * Generated by orval v7.17.2 🍺
+ * Do not edit manually.
+ * User API
+ * Type-safe API with auto-generated OpenAPI specification
+ * OpenAPI spec version: v1
+ */
+
+/**
+ * "unknown" when there is no local migration journal (schema managed with db:push)
+ */
+export type ReadinessResponseChecksMigrationsStatus = typeof ReadinessResponseChecksMigrationsStatus[keyof typeof ReadinessResponseChecksMigrationsStatus];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const ReadinessResponseChecksMigrationsStatus = {
+  'up-to-date': 'up-to-date',
+  pending: 'pending',
+  unknown: 'unknown',
+  error: 'error',
+} as const;
@@ -0,0 +1,26 @@
+/**
+ * Generated by orval v7.17.2 🍺
+ * Do not edit manually.
+ * User API
+ * Type-safe API with auto-generated OpenAPI specification
+ * OpenAPI spec version: v1
+ */
+import type { ReadinessResponseChecksPoolStatus } from './readinessResponseChecksPoolStatus';
+
+/**
+ * Omitted when the database driver has no connection pool
+ */
+export type ReadinessResponseChecksPool = {
+  /** "saturated" when every connection is busy and requests are queueing */
+  status: ReadinessResponseChecksPoolStatus;
+  /** Open connections */
+  total: number;
+  /** Open connections not in use */
+  idle: number;
+  /** Queries queued for a connection */
+  waiting: number;
+  /** Pool size limit */
+  max: number;
+  /** Share of the pool in use, 0 to 1 */
+  utilization: number;
+};
@@ -0,0 +1,19 @@
+/**
+ * Generated by orval v7.17.2 🍺
+ * Do not edit manually.
+ * User API
+ * Type-safe API with auto-generated OpenAPI specification
+ * OpenAPI spec version: v1
+ */
+
+/**
+ * "saturated" when every connection is busy and requests are queueing
+ */
+export type ReadinessResponseChecksPoolStatus = typeof ReadinessResponseChecksPoolStatus[keyof typeof ReadinessResponseChecksPoolStatus];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const ReadinessResponseChecksPoolStatus = {
+  ok: 'ok',
+  saturated: 'saturated',
+} as const;
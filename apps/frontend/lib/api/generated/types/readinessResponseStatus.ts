@@ -0,0 +1,17 @@
+/**
+ * Generated by orval v7.17.2 🍺
+ * Do not edit manually.
+ * User API
+ * Type-safe API with auto-generated OpenAPI specification
+ * OpenAPI spec version: v1
+ */
+
+export type ReadinessResponseStatus = typeof ReadinessResponseStatus[keyof typeof ReadinessResponseStatus];
+
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export const ReadinessResponseStatus = {
+  ready: 'ready',
+  not_ready: 'not_ready',
+  shutting_down: 'shutting_down',
+} as const;
@@ -21,22 +21,37 @@ export {
     nullish,
     optional,
     paginationParamsSchema,
+    passwordSchema,
     percentageSchema,
+    permissionSchema,
     phoneSchema,
     positiveInt,
     requestStatusSchema,
+    roleInsertSchema,
+    roleNameSchema,
+    roleSelectSchema,
+    roleUpdateSchema,
     searchParamsSchema,
     sortParamsSchema,
     successResponseSchema,
     timestampsSchema,
     uploadResponseSchema,
     urlSchema,
+    userInsertSchema,
+    userSelectSchema,
+    userUpdateSchema,
     uuidSchema, validate,
     validateArray,
     validateArrayFilter,
     validateOrDefault,
     validateOrThrow,
     validateWithLogging,
+    type RoleInsert,
+    type RoleSelect,
+    type RoleUpdate,
+    type UserInsert,
+    type UserSelect,
+    type UserUpdate,
     type ValidationIssue,
     type ValidationResult
 } from "./schemas";
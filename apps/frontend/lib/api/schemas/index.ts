@@ -4,6 +4,28 @@
 
 export { coercedDateSchema, createPaginatedResponseSchema, dateRangeSchema, dateStringSchema, datetimeStringSchema, emailSchema, entityStatusSchema, errorResponseSchema, fileMetadataSchema, nonEmptyString, nonNegativeInt, nullable, nullish, optional, paginationParamsSchema, percentageSchema, phoneSchema, positiveInt, requestStatusSchema, searchParamsSchema, sortParamsSchema, successResponseSchema, timestampsSchema, uploadResponseSchema, urlSchema, uuidSchema, type DateRange, type EntityStatus, type ErrorResponse, type FileMetadata, type RequestStatus, type SuccessResponse, type Timestamps, type UploadResponse } from "./common.schema";
 
+// =============================================================================
+// Contract Schemas (shared with the backend, derived from the database tables)
+// =============================================================================
+
+export {
+    passwordSchema,
+    permissionSchema,
+    roleInsertSchema,
+    roleNameSchema,
+    roleSelectSchema,
+    roleUpdateSchema,
+    userInsertSchema,
+    userSelectSchema,
+    userUpdateSchema,
+    type RoleInsert,
+    type RoleSelect,
+    type RoleUpdate,
+    type UserInsert,
+    type UserSelect,
+    type UserUpdate
+} from "@app/contracts";
+
 // =============================================================================
 // Validator Utilities (local - generic utilities)
 // =============================================================================
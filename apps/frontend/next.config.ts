@@ -2,6 +2,8 @@ import type { NextConfig } from 'next';
 
 const nextConfig: NextConfig = {
   reactStrictMode: true,
+  // Workspace packages ship TypeScript sources
+  transpilePackages: ['@app/contracts', '@app/db'],
 };
 
 export default nextConfig;
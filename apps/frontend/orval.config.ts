@@ -1,16 +1,38 @@
 import { defineConfig } from 'orval';
 
+// generate:api in the backend points these at a staged spec and output directory
+const inputSpec = process.env.ORVAL_INPUT ?? '../backend/openapi.json';
+const outputDir = process.env.ORVAL_OUTPUT_DIR ?? './lib/api/generated';
+
+// getUsers, getUsersById, postAuthPasswordChange... unless the route sets an operationId
+const operationName = (operation: { operationId?: string }, route: string, verb: string) => {
+  if (operation.operationId) return operation.operationId;
+
+  // Every path carries the API version (/api/v1/...); keep it out of the names.
+  // Orval passes path parameters as ${id}: /users/${id} becomes "users By id"
+  const cleanRoute = route
+    .replace(/^\/api\/v\d+/, "")
+    .replace(/\$?\{([^}]+)\}/g, " By $1 ")
+    .replace(/[/-]/g, " ")
+    .trim();
+
+  const words = cleanRoute.split(" ").filter(Boolean);
+  const pascalWords = words.map((w) => w.charAt(0).toUpperCase() + w.slice(1));
+
+  return verb.toLowerCase() + pascalWords.join("");
+};
+
 export default defineConfig({
   app: {
     input: {
-      target: '../backend/openapi.json',
+      target: inputSpec,
       override: {
         transformer: (input) => input, 
       },
     },
     output: {
       mode: 'tags-split',
-      workspace: './lib/api/generated/hooks',
+      workspace: `${outputDir}/hooks`,
       target: './',
       schemas: '../types',
       client: 'react-query',
@@ -27,47 +49,34 @@ export default defineConfig({
           useMutation: true,
           signal: true,
         },
-        operationName: (operation, route, verb) => {
-          if (operation.operationId) return operation.operationId;
-          
-          const cleanRoute = route
-            .replace(/\{([^}]+)\}/g, "By$1")
-            .replace(/[/-]/g, " ")
-            .trim();
-          
-          const words = cleanRoute.split(" ").filter(Boolean);
-          const pascalWords = words.map((w) => w.charAt(0).toUpperCase() + w.slice(1).toLowerCase());
-          
-          return verb.toLowerCase() + pascalWords.join("");
+        operations: {
+          // Keyset-paginated listing - also generate useGetUsersCursorInfinite
+          getUsersCursor: {
+            query: {
+              useQuery: true,
+              useInfinite: true,
+              useInfiniteQueryParam: 'cursor',
+              signal: true,
+            },
+          },
         },
+        operationName,
       },
     },
   },
   zod: {
     input: {
-      target: '../backend/openapi.json',
+      target: inputSpec,
     },
     output: {
       mode: 'tags-split',
-      workspace: './lib/api/generated/schemas',
+      workspace: `${outputDir}/schemas`,
       target: './',
       client: 'zod',
       indexFiles: true,
       override: {
         useTypeOverInterfaces: true,
-        operationName: (operation, route, verb) => {
-          if (operation.operationId) return operation.operationId;
-          
-          const cleanRoute = route
-            .replace(/\{([^}]+)\}/g, "By$1")
-            .replace(/[/-]/g, " ")
-            .trim();
-          
-          const words = cleanRoute.split(" ").filter(Boolean);
-          const pascalWords = words.map((w) => w.charAt(0).toUpperCase() + w.slice(1).toLowerCase());
-          
-          return verb.toLowerCase() + pascalWords.join("");
-        },
+        operationName,
       },
     },
   },
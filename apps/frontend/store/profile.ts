@@ -1,3 +1,4 @@
+import type { Permission } from "@/lib/api/generated/types";
 import { USER_TYPE } from "@/types";
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
@@ -7,31 +8,50 @@ interface Profile {
   email: string;
   avatar?: string;
   user_type: USER_TYPE;
-  role: string;
+  // Effective permissions from GET /auth/me - check these rather than role names
+  permissions: Permission[];
 }
 
 interface IProfileStore {
   profile: Profile | null;
   token: string;
+  refreshToken: string;
 
   setProfile: (profile: Profile | null) => void;
   setToken: (token: string) => void;
+  setRefreshToken: (refreshToken: string) => void;
+  hasPermission: (permission: Permission) => boolean;
 }
 
 export const useProfileStore = create<IProfileStore>()(
   persist(
-    (set) => ({
+    (set, get) => ({
       profile: null,
       token: "",
+      refreshToken: "",
 
       setProfile: (profile: Profile | null) => set({ profile }),
       setToken: (token: string) => set({ token }),
+      setRefreshToken: (refreshToken: string) => set({ refreshToken }),
+      hasPermission: (permission: Permission) =>
+        get().profile?.permissions.includes(permission) ?? false,
     }),
     {
       name: "app-auth-store",
+      // Version 0 profiles carried a role name instead of permissions
+      version: 1,
+      migrate: (persisted, version) => {
+        const state = persisted as Pick<IProfileStore, "profile" | "token" | "refreshToken">;
+        if (version < 1 && state.profile && !Array.isArray(state.profile.permissions)) {
+          // Sign in again so the profile is loaded with its permissions
+          return { profile: null, token: "", refreshToken: "" };
+        }
+        return state;
+      },
       partialize: (state) => ({ 
         profile: state.profile, 
-        token: state.token 
+        token: state.token,
+        refreshToken: state.refreshToken,
       }),
     }
   )
@@ -0,0 +1,13 @@
+// Zod schemas derived from the Drizzle tables in @app/db, shared by the API and
+// the frontend. Changing a column changes the schemas on both sides.
+
+export * from "./roles.js";
+export * from "./users.js";
+export {
+  createTableSchemas,
+  DEFAULT_READ_ONLY,
+  isoDateTime,
+  isoDateTimeInput,
+  withMeta,
+  type TableSchemas,
+} from "./table-schemas.js";
@@ -0,0 +1,34 @@
+import { PERMISSION_KEYS } from "@app/db/access-control";
+import { roles } from "@app/db/schema";
+import { z } from "zod";
+import { createInsertSchema, createSelectSchema, createUpdateSchema, isoDateTime } from "./table-schemas.js";
+
+// Roles are rows in the database, so only the name format is checked here
+export const roleNameSchema = z
+  .string()
+  .max(50)
+  .regex(/^[a-z][a-z0-9-]*$/, { message: "Role name must be lowercase letters, digits and dashes" });
+
+export const permissionSchema = z.enum(PERMISSION_KEYS).meta({
+  id: "Permission",
+  description: "Permission key",
+  example: "users:read",
+});
+
+export const roleSelectSchema = createSelectSchema(roles, {
+  name: () => roleNameSchema,
+  createdAt: isoDateTime,
+});
+
+export const roleInsertSchema = createInsertSchema(roles, {
+  name: () => roleNameSchema,
+}).omit({ id: true, createdAt: true });
+
+export const roleUpdateSchema = createUpdateSchema(roles, {
+  name: () => roleNameSchema,
+}).omit({ id: true, createdAt: true });
+
+export type Permission = z.infer<typeof permissionSchema>;
+export type RoleSelect = z.infer<typeof roleSelectSchema>;
+export type RoleInsert = z.infer<typeof roleInsertSchema>;
+export type RoleUpdate = z.infer<typeof roleUpdateSchema>;
@@ -0,0 +1,83 @@
+import { getTableColumns, type InferInsertModel } from "drizzle-orm";
+import type { PgTable } from "drizzle-orm/pg-core";
+import { createSchemaFactory } from "drizzle-zod";
+import { z } from "zod";
+
+export const { createSelectSchema, createInsertSchema, createUpdateSchema } = createSchemaFactory({ zodInstance: z });
+
+// Columns the database fills in and clients never send
+export const DEFAULT_READ_ONLY = ["id", "createdAt", "updatedAt"];
+
+// Timestamps travel as ISO 8601 strings: responses format them, requests parse them
+export const isoDateTime = () => z.iso.datetime();
+export const isoDateTimeInput = () => z.iso.datetime({ offset: true }).transform((value) => new Date(value));
+
+/**
+ * Attach OpenAPI metadata (description, example) to fields of an object schema.
+ * Metadata does not change the inferred type.
+ */
+export const withMeta = <TShape extends Record<string, z.ZodType>>(
+  schema: z.ZodObject<TShape>,
+  meta: { [K in keyof TShape]?: z.GlobalMeta },
+): z.ZodObject<TShape> => {
+  const shape = { ...schema.shape };
+  for (const key in meta) {
+    const fieldMeta = meta[key];
+    if (fieldMeta) shape[key] = shape[key].meta(fieldMeta);
+  }
+  return schema.clone({ ...schema.def, shape });
+};
+
+// drizzle-zod refinements need the column types, which an arbitrary table does
+// not have: swap in the date schemas afterwards, keeping optional and nullable
+const withDateColumns = (schema: z.ZodObject, table: PgTable, date: () => z.ZodType) =>
+  schema.extend(
+    Object.fromEntries(
+      Object.entries(getTableColumns(table))
+        .filter(([, column]) => column.dataType === "date")
+        .map(([key]) => {
+          const original = schema.shape[key];
+          let replacement: z.ZodType = date();
+          if (z.safeParse(original, null).success) replacement = replacement.nullable();
+          if (z.safeParse(original, undefined).success) replacement = replacement.optional();
+          return [key, replacement];
+        }),
+    ),
+  );
+
+const omitKeys = (schema: z.ZodObject, keys: readonly string[]) =>
+  z.object(Object.fromEntries(Object.entries(schema.shape).filter(([key]) => !keys.includes(key))));
+
+/**
+ * Request body schema of a table: validates what the table accepts (the
+ * model's Date columns arrive as ISO strings and are parsed to Dates)
+ */
+export type TableBodySchema<TBody> = z.ZodObject & z.ZodType<TBody, unknown>;
+
+export interface TableSchemas<TTable extends PgTable = PgTable> {
+  select: z.ZodObject;
+  insert: TableBodySchema<InferInsertModel<TTable>>;
+  update: TableBodySchema<Partial<InferInsertModel<TTable>>>;
+}
+
+/**
+ * Derive select/insert/update schemas for any table, with timestamps as ISO
+ * strings and `readOnly` columns left out of the request schemas. For a
+ * specific table prefer the typed drizzle-zod factories above.
+ */
+export function createTableSchemas<TTable extends PgTable>(
+  table: TTable,
+  readOnly: readonly string[] = DEFAULT_READ_ONLY,
+): TableSchemas<TTable> {
+  // Built column by column at runtime; the body types come from the table model
+  const anyTable: PgTable = table;
+  const select = withDateColumns(createSelectSchema(anyTable), anyTable, isoDateTime);
+  const insert = withDateColumns(createInsertSchema(anyTable), anyTable, isoDateTimeInput);
+  const update = withDateColumns(createUpdateSchema(anyTable), anyTable, isoDateTimeInput);
+
+  return {
+    select,
+    insert: omitKeys(insert, readOnly) as TableBodySchema<InferInsertModel<TTable>>,
+    update: omitKeys(update, readOnly) as TableBodySchema<Partial<InferInsertModel<TTable>>>,
+  };
+}
@@ -0,0 +1,71 @@
+import { users } from "@app/db/schema";
+import { z } from "zod";
+import { roleNameSchema } from "./roles.js";
+import { createInsertSchema, createSelectSchema, createUpdateSchema, isoDateTime, withMeta } from "./table-schemas.js";
+
+// Password policy: length matters more than composition, but require a mix
+// of letters and digits to rule out the most common choices
+export const passwordSchema = z
+  .string()
+  .min(12, { message: "Password must be at least 12 characters" })
+  .max(128, { message: "Password must be at most 128 characters" })
+  .regex(/[A-Za-z]/, { message: "Password must contain a letter" })
+  .regex(/\d/, { message: "Password must contain a digit" })
+  .meta({
+    description: "Password (12-128 characters, at least one letter and one digit)",
+    example: "correct-horse-42-battery",
+  });
+
+// Tightening shared by the request schemas; types and nullability come from the columns.
+// Emails are stored lower-cased so one address cannot become two accounts.
+const userInputRefinements = {
+  name: (schema: z.ZodString) => schema.min(1),
+  email: (schema: z.ZodString) => schema.email().toLowerCase(),
+  address: (schema: z.ZodString) => schema.min(1),
+  role: () => roleNameSchema,
+};
+
+const fieldMeta = {
+  name: { description: "User name", example: "John Doe" },
+  email: { description: "User email address", example: "john@example.com" },
+  address: { description: "User address", example: "123 Main St" },
+  role: { description: "User role (see GET /api/v1/roles)", example: "user" },
+} satisfies Record<string, z.GlobalMeta>;
+
+/**
+ * A user as the API returns it
+ */
+export const userSelectSchema = withMeta(
+  createSelectSchema(users, {
+    email: (schema) => schema.email(),
+    role: () => roleNameSchema,
+    createdAt: isoDateTime,
+    updatedAt: isoDateTime,
+  }),
+  {
+    id: { description: "User ID", example: "123e4567-e89b-12d3-a456-426614174000" },
+    ...fieldMeta,
+    createdAt: { description: "When the user was created", example: "2025-01-01T12:00:00.000Z" },
+    updatedAt: { description: "When the user was last changed", example: "2025-01-01T12:00:00.000Z" },
+  },
+);
+
+/**
+ * Fields accepted when creating a user. The role falls back to the column default.
+ */
+export const userInsertSchema = withMeta(
+  createInsertSchema(users, userInputRefinements).omit({ id: true, createdAt: true, updatedAt: true }),
+  fieldMeta,
+);
+
+/**
+ * Fields accepted when updating a user, all optional
+ */
+export const userUpdateSchema = withMeta(
+  createUpdateSchema(users, userInputRefinements).omit({ id: true, createdAt: true, updatedAt: true }),
+  fieldMeta,
+);
+
+export type UserSelect = z.infer<typeof userSelectSchema>;
+export type UserInsert = z.infer<typeof userInsertSchema>;
+export type UserUpdate = z.infer<typeof userUpdateSchema>;
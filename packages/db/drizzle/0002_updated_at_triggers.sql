@@ -0,0 +1,13 @@
+-- Keep updated_at current on every UPDATE, whichever code path issues it.
+-- clock_timestamp() rather than now(): several updates in one transaction must
+-- still get distinct values, since ETags are derived from updated_at.
+CREATE OR REPLACE FUNCTION "set_updated_at"() RETURNS trigger AS $$
+BEGIN
+	NEW."updated_at" := clock_timestamp();
+	RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+--> statement-breakpoint
+CREATE TRIGGER "users_set_updated_at" BEFORE UPDATE ON "users" FOR EACH ROW EXECUTE FUNCTION "set_updated_at"();
+--> statement-breakpoint
+CREATE TRIGGER "user_credentials_set_updated_at" BEFORE UPDATE ON "user_credentials" FOR EACH ROW EXECUTE FUNCTION "set_updated_at"();
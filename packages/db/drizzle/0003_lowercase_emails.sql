@@ -0,0 +1,3 @@
+-- The API lower-cases emails on every write and on sign-in; bring existing rows
+-- in line. Fails on addresses that differ only in case: merge those accounts first.
+UPDATE "users" SET "email" = lower("email") WHERE "email" <> lower("email");
@@ -0,0 +1,40 @@
+-- Move the users of a database created with `db:push` (set aside by 0000) into
+-- the new table. Their role was the "user_role" enum, so "user" and "admin" are
+-- created here for the foreign key, admin with every permission known at this
+-- point; `db:seed` adds the other roles and leaves these two alone.
+-- Fails on emails that differ only in case: merge those accounts first.
+DO $$
+BEGIN
+	IF to_regclass('public.users_before_migrations') IS NULL THEN
+		RETURN;
+	END IF;
+
+	INSERT INTO "permissions" ("key", "description") VALUES
+		('users:read', 'View any user and list users'),
+		('users:update', 'Edit any user''s profile'),
+		('users:delete', 'Delete users'),
+		('users:assign-role', 'Set the role of a user'),
+		('users:set-password', 'Set or reset any user''s password'),
+		('roles:read', 'View roles and their permissions'),
+		('roles:manage', 'Create roles and change their permissions'),
+		('billing:read', 'View billing information'),
+		('billing:manage', 'Change billing information')
+	ON CONFLICT ("key") DO NOTHING;
+
+	INSERT INTO "roles" ("name", "description") VALUES
+		('user', 'Regular user - can only manage their own account'),
+		('admin', 'Full access')
+	ON CONFLICT ("name") DO NOTHING;
+
+	INSERT INTO "role_permissions" ("role_id", "permission_id")
+	SELECT "roles"."id", "permissions"."id" FROM "roles" CROSS JOIN "permissions"
+	WHERE "roles"."name" = 'admin'
+	ON CONFLICT DO NOTHING;
+
+	INSERT INTO "users" ("id", "name", "created_at", "updated_at", "email", "role", "address")
+	SELECT "id", "name", "created_at", "updated_at", lower("email"), "role"::text, "address"
+	FROM "users_before_migrations";
+
+	DROP TABLE "users_before_migrations";
+	DROP TYPE "user_role";
+END $$;
@@ -0,0 +1,30 @@
+// scripts/seed.ts - Seed the permission catalogue and built-in roles
+import "dotenv/config";
+import { db, pool } from "../src/db.js";
+import { seedAccessControl } from "../src/seed.js";
+
+async function seed() {
+  console.log("🌱 Seeding roles and permissions...\n");
+
+  try {
+    const result = await seedAccessControl(db);
+
+    console.log(`✅ ${result.permissions} permissions`);
+    for (const name of result.existingRoles) {
+      console.log(`  ⏭️  ${name} (already exists)`);
+    }
+    for (const role of result.createdRoles) {
+      console.log(`  ✅ ${role.name} (${role.permissions} permissions)`);
+    }
+
+    console.log("\n🎉 Seeding completed successfully!");
+  } catch (error) {
+    console.error("\n❌ Seeding failed:");
+    console.error(error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+seed();
@@ -0,0 +1,45 @@
+// Permission catalogue and built-in roles.
+// Permission keys are referenced from code, so the catalogue lives here rather
+// than only in the database. Which role holds which permission is data: the
+// defaults below are seeded once and can be changed at runtime.
+
+export const PERMISSIONS = {
+  "users:read": "View any user and list users",
+  "users:update": "Edit any user's profile",
+  "users:delete": "Delete users",
+  "users:assign-role": "Set the role of a user",
+  "users:set-password": "Set or reset any user's password",
+  "roles:read": "View roles and their permissions",
+  "roles:manage": "Create roles and change their permissions",
+  "billing:read": "View billing information",
+  "billing:manage": "Change billing information",
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const PERMISSION_KEYS = Object.keys(PERMISSIONS) as [Permission, ...Permission[]];
+
+export const DEFAULT_ROLE = "user";
+
+export const BUILT_IN_ROLES: Record<string, { description: string; permissions: Permission[] }> = {
+  user: {
+    description: "Regular user - can only manage their own account",
+    permissions: [],
+  },
+  admin: {
+    description: "Full access",
+    permissions: [...PERMISSION_KEYS],
+  },
+  support: {
+    description: "Customer support - view and edit users",
+    permissions: ["users:read", "users:update"],
+  },
+  billing: {
+    description: "Billing staff - view users and manage billing",
+    permissions: ["users:read", "billing:read", "billing:manage"],
+  },
+  auditor: {
+    description: "Read-only access for audits",
+    permissions: ["users:read", "roles:read", "billing:read"],
+  },
+};
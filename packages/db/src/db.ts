@@ -1,6 +1,7 @@
 import Logger from "@app/logger";
 import "dotenv/config";
 import { drizzle } from "drizzle-orm/node-postgres";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
 import { Pool } from "pg";
 import { z } from "zod";
 import * as schema from "./schema.js";
@@ -36,3 +37,9 @@ pool.on("error", (err) => {
 
 export const db = drizzle(pool, { schema });
 export { pool };
+
+/**
+ * A Drizzle database over this schema, whatever the driver. Accept this
+ * instead of `typeof db` so callers can pass another connection (e.g. PGlite in tests).
+ */
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
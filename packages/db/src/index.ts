@@ -1,11 +1,20 @@
 import "dotenv/config";
 
 // Export database connection
-export { db, pool } from "./db.js";
+export { db, pool, type Database } from "./db.js";
 
 // Export schema
 export * from "./schema.js";
 
+// Export permission catalogue and built-in roles
+export * from "./access-control.js";
+
+// Export migration status helpers
+export * from "./migrations.js";
+
+// Export seeding of the permission catalogue and built-in roles
+export { seedAccessControl, type SeedResult } from "./seed.js";
+
 // Export commonly used Drizzle ORM functions
 export * from "drizzle-orm";
 
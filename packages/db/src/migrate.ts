@@ -27,8 +27,8 @@ async function runMigrations() {
       ORDER BY table_name
     `);
 
-    if (tablesResult.length > 0) {
-      tablesResult.forEach((row: Record<string, unknown>) => {
+    if (tablesResult.rows.length > 0) {
+      tablesResult.rows.forEach((row: Record<string, unknown>) => {
         console.log(`  ✅ ${row.table_name}`);
       });
     } else {
@@ -0,0 +1,67 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+// Folder written by `drizzle-kit generate` (see drizzle.config.ts)
+export const MIGRATIONS_FOLDER = fileURLToPath(new URL("../drizzle", import.meta.url));
+
+// Anything that can run a query the way pg's Pool and Client do
+export interface Queryable {
+  query: (text: string) => Promise<{ rows: unknown[] }>;
+}
+
+export interface MigrationStatus {
+  // "unknown" when there is no local journal, e.g. the schema is managed with db:push
+  status: "up-to-date" | "pending" | "unknown";
+  applied: number;
+  available: number | null;
+  pending: number | null;
+}
+
+interface Journal {
+  entries: { tag: string; when: number }[];
+}
+
+const readJournal = async (migrationsFolder: string): Promise<Journal | null> => {
+  try {
+    return JSON.parse(await readFile(join(migrationsFolder, "meta", "_journal.json"), "utf8"));
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Compare the migrations in the local journal with those applied to the database.
+ * Mirrors drizzle's migrator: a migration is pending when it is newer than the
+ * last one recorded in drizzle.__drizzle_migrations.
+ */
+export async function getMigrationStatus(
+  client: Queryable,
+  migrationsFolder = MIGRATIONS_FOLDER,
+): Promise<MigrationStatus> {
+  const { rows } = await client.query(`
+    SELECT count(*)::int AS applied, max(created_at)::bigint AS last_applied
+    FROM drizzle.__drizzle_migrations
+  `).catch((error: { code?: string }) => {
+    // undefined_table / invalid_schema_name: nothing has been migrated yet
+    if (error.code === "42P01" || error.code === "3F000") return { rows: [{ applied: 0, last_applied: null }] };
+    throw error;
+  });
+
+  const { applied, last_applied } = rows[0] as { applied: number; last_applied: string | null };
+  const lastApplied = last_applied === null ? null : Number(last_applied);
+
+  const journal = await readJournal(migrationsFolder);
+  if (!journal) {
+    return { status: "unknown", applied, available: null, pending: null };
+  }
+
+  const pending = journal.entries.filter((entry) => lastApplied === null || entry.when > lastApplied).length;
+
+  return {
+    status: pending === 0 ? "up-to-date" : "pending",
+    applied,
+    available: journal.entries.length,
+    pending,
+  };
+}
@@ -1,22 +1,106 @@
-import { pgEnum, pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core";
-import { createSelectSchema } from "drizzle-zod";
-import type { z } from "zod";
+import { index, integer, pgTable, primaryKey, text, timestamp, unique, uuid } from "drizzle-orm/pg-core";
 
-export const userRoleEnum = pgEnum("user_role", ["user", "admin"]);
+// Roles are rows rather than an enum so new staff roles need no migration
+export const roles = pgTable("roles", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  name: text("name").notNull().unique(),
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const permissions = pgTable("permissions", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  key: text("key").notNull().unique(),
+  description: text("description"),
+});
+
+export const rolePermissions = pgTable("role_permissions", {
+  roleId: uuid("role_id")
+    .notNull()
+    .references(() => roles.id, { onDelete: "cascade" }),
+  permissionId: uuid("permission_id")
+    .notNull()
+    .references(() => permissions.id, { onDelete: "cascade" }),
+}, (table) => [
+  primaryKey({ columns: [table.roleId, table.permissionId] }),
+]);
 
+// updated_at columns are bumped by a BEFORE UPDATE trigger (set_updated_at(),
+// see drizzle/0002_updated_at_triggers.sql), so no query has to remember to set
+// them. A new table with updated_at needs its own trigger in a custom migration
+// (`pnpm db:generate --custom`). `drizzle-kit push` does not create triggers, so
+// Drizzle also sets the column on updates that leave it out ($onUpdate); the
+// trigger overrides that value where it exists.
 export const users = pgTable("users", {
   id: uuid("id").primaryKey().defaultRandom(),
   name: text("name"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at")
+    .defaultNow()
+    .notNull()
+    .$onUpdate(() => new Date()),
   email: text("email").notNull().unique(),
-  role: userRoleEnum("role").notNull().default("user"),
+  role: text("role")
+    .notNull()
+    .default("user")
+    .references(() => roles.name, { onUpdate: "cascade" }),
   address: text("address").notNull().unique(),
+}, (table) => [
+  // Backs keyset (cursor) pagination ordered by (created_at, id)
+  index("users_created_at_id_idx").on(table.createdAt, table.id),
+]);
+
+// Password credentials live apart from users so profile queries never load hashes
+export const userCredentials = pgTable("user_credentials", {
+  userId: uuid("user_id")
+    .primaryKey()
+    .references(() => users.id, { onDelete: "cascade" }),
+  passwordHash: text("password_hash").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at")
+    .defaultNow()
+    .notNull()
+    .$onUpdate(() => new Date()),
 });
 
-export const userSchema = createSelectSchema(users);
+// Refresh tokens are stored hashed. Each login starts a family; rotation revokes
+// the presented token and issues a successor in the same family, so replaying a
+// revoked token reveals theft and revokes the whole family.
+export const refreshTokens = pgTable("refresh_tokens", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  familyId: uuid("family_id").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  replacedBy: uuid("replaced_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("refresh_tokens_family_id_idx").on(table.familyId),
+  index("refresh_tokens_user_id_idx").on(table.userId),
+]);
 
-export const userRoleEnumSchema = createSelectSchema(userRoleEnum);
+// First response to each Idempotency-Key, replayed when a client retries the
+// request. Keys are scoped to the caller (NULL for anonymous requests) and kept
+// until expires_at; a row without a status code is a request still in flight.
+export const idempotencyKeys = pgTable("idempotency_keys", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  key: text("key").notNull(),
+  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }),
+  // SHA-256 of the method, route and body, to detect a key reused for another request
+  fingerprint: text("fingerprint").notNull(),
+  statusCode: integer("status_code"),
+  contentType: text("content_type"),
+  body: text("body"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+}, (table) => [
+  unique("idempotency_keys_key_user_id_unique").on(table.key, table.userId).nullsNotDistinct(),
+  index("idempotency_keys_expires_at_idx").on(table.expiresAt),
+]);
 
-export type User = z.infer<typeof userSchema>;
-export type UserRole = z.infer<typeof userRoleEnumSchema>;
+// Request/response (Zod) schemas derived from these tables live in @app/contracts
+export type User = typeof users.$inferSelect;
+export type Role = typeof roles.$inferSelect;
@@ -0,0 +1,53 @@
+import { sql } from "drizzle-orm";
+import { BUILT_IN_ROLES, PERMISSIONS } from "./access-control.js";
+import type { Database } from "./db.js";
+import { permissions, rolePermissions, roles } from "./schema.js";
+
+export interface SeedResult {
+  permissions: number;
+  // Built-in roles created by this run, with their permission count
+  createdRoles: { name: string; permissions: number }[];
+  // Built-in roles that already existed and were left untouched
+  existingRoles: string[];
+}
+
+/**
+ * Seed the permission catalogue and the built-in roles. Safe to run repeatedly:
+ * permission descriptions are kept in sync, but existing roles are left alone
+ * so changes made at runtime survive.
+ */
+export async function seedAccessControl(db: Database): Promise<SeedResult> {
+  const result: SeedResult = { permissions: 0, createdRoles: [], existingRoles: [] };
+
+  for (const [key, description] of Object.entries(PERMISSIONS)) {
+    await db
+      .insert(permissions)
+      .values({ key, description })
+      .onConflictDoUpdate({ target: permissions.key, set: { description } });
+    result.permissions++;
+  }
+
+  for (const [name, role] of Object.entries(BUILT_IN_ROLES)) {
+    const [created] = await db
+      .insert(roles)
+      .values({ name, description: role.description })
+      .onConflictDoNothing({ target: roles.name })
+      .returning();
+
+    if (!created) {
+      result.existingRoles.push(name);
+      continue;
+    }
+
+    if (role.permissions.length > 0) {
+      await db.execute(sql`
+        INSERT INTO ${rolePermissions} (role_id, permission_id)
+        SELECT ${created.id}, id FROM ${permissions}
+        WHERE key IN (${sql.join(role.permissions.map((key) => sql`${key}`), sql`, `)})
+      `);
+    }
+    result.createdRoles.push({ name, permissions: role.permissions.length });
+  }
+
+  return result;
+}
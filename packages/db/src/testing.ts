@@ -0,0 +1,34 @@
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import type { Database } from "./db.js";
+import { MIGRATIONS_FOLDER } from "./migrations.js";
+import * as schema from "./schema.js";
+import { seedAccessControl } from "./seed.js";
+
+export interface TestDatabaseOptions {
+  /** Runs against the empty database before the migrations, e.g. to recreate an older schema */
+  setup?: (client: PGlite) => Promise<unknown>;
+}
+
+export interface TestDatabase {
+  db: Database;
+  client: PGlite;
+  close: () => Promise<void>;
+}
+
+/**
+ * Start an in-memory Postgres (PGlite), apply the migrations from ./drizzle
+ * and seed roles and permissions. Each call gets its own empty database.
+ */
+export async function createTestDatabase(options: TestDatabaseOptions = {}): Promise<TestDatabase> {
+  const client = new PGlite();
+  const db = drizzle(client, { schema });
+
+  await options.setup?.(client);
+
+  await migrate(db, { migrationsFolder: MIGRATIONS_FOLDER });
+  await seedAccessControl(db);
+
+  return { db, client, close: () => client.close() };
+}
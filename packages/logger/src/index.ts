@@ -16,6 +16,7 @@ interface LogMessage {
 export class Logger {
   private logger: pino.Logger;
   private options: LoggerOptions;
+  private stream: ReturnType<typeof pretty>;
 
   constructor(options: LoggerOptions = {}) {
     this.options = options;
@@ -39,6 +40,7 @@ export class Logger {
         ...options.customLevels,
       },
     });
+    this.stream = stream;
 
     this.logger = pino(
       {
@@ -55,6 +57,15 @@ export class Logger {
     );
   }
 
+  /**
+   * Underlying pino instance, for libraries that expect a pino-compatible
+   * logger (e.g. Fastify's `loggerInstance`). Shares this logger's level,
+   * formatters and pretty output.
+   */
+  get pino(): pino.Logger {
+    return this.logger;
+  }
+
   private formatMessage(msg: string | Error, args: unknown[]) {
     if (msg instanceof Error) {
       const { message, stack, ...rest } = msg;
@@ -113,6 +124,20 @@ export class Logger {
     });
   }
 
+  /**
+   * Wait until every buffered line has been written. Output is asynchronous,
+   * so call this before `process.exit()` or the last lines may be lost. Ends
+   * the output stream: nothing can be logged through this logger afterwards.
+   */
+  flush(): Promise<void> {
+    if (this.stream.destroyed) return Promise.resolve();
+
+    return new Promise((resolve) => {
+      this.stream.once("close", () => resolve());
+      this.stream.end();
+    });
+  }
+
   static createLogger(options?: LoggerOptions): Logger {
     return new Logger(options);
   }